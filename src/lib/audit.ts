@@ -0,0 +1,81 @@
+import * as _ from 'lodash';
+import * as Sequelize from 'sequelize';
+
+/**
+ * The kinds of write recorded in the audit trail, named after the methods making them.
+ */
+export type AuditOperation = 'create' | 'update' | 'replace' | 'delete' | 'restore' | 'purge' | 'addRelated' | 'removeRelated';
+
+/**
+ * The value of an attribute before and after a write, null if it didn't have one.
+ */
+export interface AuditChange {
+  before: any;
+  after: any;
+};
+
+/**
+ * An entry in the audit trail, recording one write to one resource.
+ */
+export interface AuditEntry {
+  /**
+   * The name of the collection written to.
+   */
+  collection: string;
+
+  /**
+   * The ID of the resource written to, as in its URL.
+   */
+  entityId: string;
+
+  /**
+   * Who made the change, from the request context.
+   */
+  actor: string;
+
+  operation: AuditOperation;
+  timestamp: Date;
+
+  /**
+   * The attributes which changed, keyed by model attribute, or for `addRelated` and `removeRelated`, the IDs of
+   * the related resources, keyed by relationship.
+   */
+  changes: _.Dictionary<AuditChange>;
+};
+
+/**
+ * Defines a model suitable for holding the audit trail, given as the `model` of the `audit` option.
+ * @param sequelize the Sequelize instance to define it on
+ * @param name the name of the model, optional
+ */
+export function defineAuditModel(sequelize: Sequelize.Sequelize, name: string = 'audit'): Sequelize.Model<Sequelize.Instance<AuditEntry>, AuditEntry> {
+  return sequelize.define<Sequelize.Instance<AuditEntry>, AuditEntry>(name, {
+    collection: {type: Sequelize.STRING, allowNull: false},
+    entityId: {type: Sequelize.STRING, allowNull: false},
+    actor: Sequelize.STRING,
+    operation: {type: Sequelize.STRING, allowNull: false},
+    timestamp: {type: Sequelize.DATE, allowNull: false},
+    changes: Sequelize.JSON
+  }, {
+    timestamps: false,
+    indexes: [{fields: ['collection', 'entityId']}]
+  });
+}
+
+/**
+ * Gets the attributes whose values differ between two versions of a row.
+ * @param before the attributes before the write, or empty if it was created
+ * @param after the attributes after the write, or empty if it was deleted
+ */
+export function diffAttributes(before: any, after: any): _.Dictionary<AuditChange> {
+  let changes: _.Dictionary<AuditChange> = {};
+
+  for (let k of _.union(Object.keys(before), Object.keys(after))) {
+    const change = {before: _.isUndefined(before[k]) ? null : before[k], after: _.isUndefined(after[k]) ? null : after[k]};
+
+    if (!_.isEqual(change.before, change.after))
+      changes[k] = change;
+  }
+
+  return changes;
+}
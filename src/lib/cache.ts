@@ -0,0 +1,86 @@
+/**
+ * Stores the results of `get` and `list` for a resource collection, given as its `cache` option.  Methods
+ * may return promises.  The values are `Resource` objects, which are returned from the cache as they are, so
+ * they must be kept as objects rather than serialised.
+ */
+export interface CacheAdapter {
+  /**
+   * Gets the value stored under a key, or undefined if there is none.
+   */
+  get(key: string): any;
+
+  /**
+   * Stores a value under a key.
+   */
+  set(key: string, value: any): any;
+
+  /**
+   * Removes every value whose key starts with the given prefix.
+   */
+  invalidate(prefix: string): any;
+};
+
+/**
+ * The number of cache lookups which found a value, and which didn't.
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+};
+
+/**
+ * A `CacheAdapter` keeping values in memory, which discards the least recently used values once it holds
+ * `maxEntries`, and optionally values older than `ttl` milliseconds.
+ */
+export class LruCache implements CacheAdapter {
+  /**
+   * The cached values and when they were stored, in order of use, least recent first.
+   */
+  private entries = new Map<string, {value: any, stored: number}>();
+
+  /**
+   * Constructor.
+   * @param maxEntries the most values to hold, optional
+   * @param ttl how long to hold each value for in milliseconds, optional
+   */
+  constructor(private maxEntries: number = 1000, private ttl?: number) {
+  }
+
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+
+  get(key: string): any {
+    const entry = this.entries.get(key);
+
+    if (!entry)
+      return undefined;
+
+    this.entries.delete(key);
+
+    if (this.ttl != null && Date.now() - entry.stored > this.ttl)
+      return undefined;
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+
+  set(key: string, value: any) {
+    this.entries.delete(key);
+    this.entries.set(key, {value, stored: Date.now()});
+
+    while (this.entries.size > this.maxEntries)
+      this.entries.delete(this.entries.keys().next().value);
+  }
+
+
+  invalidate(prefix: string) {
+    for (let key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix))
+        this.entries.delete(key);
+    }
+  }
+};
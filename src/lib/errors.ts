@@ -0,0 +1,162 @@
+import * as _ from 'lodash';
+import * as Sequelize from 'sequelize';
+
+/**
+ * The JSON body of an error, suitable for sending as an HTTP response.
+ */
+export interface ErrorBody {
+  status: number;
+  error: string;
+  message: string;
+  [key: string]: any;
+};
+
+/**
+ * The base class of all the errors thrown by a resource collection.
+ */
+export class DbResourceError extends Error {
+  /**
+   * Constructor.
+   * @param message a description of the error
+   * @param status the suggested HTTP status code for the error
+   */
+  constructor(message: string, public status: number = 500) {
+    super(message);
+    this.name = 'DbResourceError';
+  }
+
+
+  /**
+   * Gets a JSON-serialisable body describing the error.
+   */
+  toJSON(): ErrorBody {
+    return {
+      status: this.status,
+      error: this.name,
+      message: this.message
+    };
+  }
+};
+
+/**
+ * Thrown when the query options contain a filter, sort or paging value that can't be translated
+ * into a Sequelize query.
+ */
+export class InvalidQueryError extends DbResourceError {
+  /**
+   * Constructor.
+   * @param message a description of what was wrong with the query
+   */
+  constructor(message: string) {
+    super(message, 400);
+    this.name = 'InvalidQueryError';
+  }
+};
+
+/**
+ * Thrown when a payload doesn't match the constraints given to `create` or `update`.
+ */
+export class ConstraintViolationError extends DbResourceError {
+  /**
+   * Constructor.
+   * @param message a description of the violation, optional
+   */
+  constructor(message: string = 'constraint violation') {
+    super(message, 403);
+    this.name = 'ConstraintViolationError';
+  }
+};
+
+/**
+ * Thrown when a payload fails validation; `attributes` holds the messages for each invalid attribute.
+ */
+export class ValidationError extends DbResourceError {
+  /**
+   * Constructor.
+   * @param message a description of the error
+   * @param attributes the validation messages, keyed by attribute name
+   */
+  constructor(message: string, public attributes: _.Dictionary<string[]> = {}) {
+    super(message, 422);
+    this.name = 'ValidationError';
+  }
+
+
+  toJSON(): ErrorBody {
+    return {...super.toJSON(), attributes: this.attributes};
+  }
+};
+
+/**
+ * Thrown when a change would violate a unique or foreign key constraint in the database.
+ */
+export class ConflictError extends DbResourceError {
+  /**
+   * Constructor.
+   * @param message a description of the error
+   * @param fields the fields involved in the conflict
+   */
+  constructor(message: string, public fields: string[] = []) {
+    super(message, 409);
+    this.name = 'ConflictError';
+  }
+
+
+  toJSON(): ErrorBody {
+    return {...super.toJSON(), fields: this.fields};
+  }
+};
+
+/**
+ * Thrown when a resource required by an operation doesn't exist.
+ */
+export class NotFoundError extends DbResourceError {
+  /**
+   * Constructor.
+   * @param message a description of what wasn't found, optional
+   */
+  constructor(message: string = 'not found') {
+    super(message, 404);
+    this.name = 'NotFoundError';
+  }
+};
+
+/**
+ * Thrown when a resource doesn't have the version a write expected, because it has been changed since.
+ */
+export class PreconditionFailedError extends DbResourceError {
+  /**
+   * Constructor.
+   * @param message a description of the error, optional
+   */
+  constructor(message: string = 'resource has been modified') {
+    super(message, 412);
+    this.name = 'PreconditionFailedError';
+  }
+};
+
+
+/**
+ * Translates Sequelize validation and constraint errors into the equivalent `DbResourceError`,
+ * returning any other error as it is.
+ * @param err the error thrown by Sequelize
+ */
+export function translateError(err) {
+  if (err instanceof Sequelize.UniqueConstraintError) {
+    return new ConflictError(err.message, Object.keys((<any>err).fields || {}));
+
+  } else if (err instanceof Sequelize.ValidationError) {
+    const attributes = _.mapValues(
+      _.groupBy((<Sequelize.ValidationError>err).errors, (item) => item.path),
+      (items) => items.map((item) => item.message)
+    );
+
+    return new ValidationError(err.message, attributes);
+
+  } else if (err instanceof Sequelize.ForeignKeyConstraintError) {
+    return new ConflictError(err.message, (<any>err).fields || []);
+
+  } else {
+    return err;
+  }
+}
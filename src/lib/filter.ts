@@ -0,0 +1,161 @@
+import * as _ from 'lodash';
+import * as Sequelize from 'sequelize';
+import {InvalidQueryError} from './errors';
+
+/**
+ * Filter comparison operators which map directly onto a Sequelize operator.
+ */
+const comparisonOperators: _.Dictionary<string> = {
+  $eq: '$eq',
+  $ne: '$ne',
+  $gt: '$gt',
+  $gte: '$gte',
+  $lt: '$lt',
+  $lte: '$lte',
+  $in: '$in',
+  $nin: '$notIn'
+};
+
+
+/**
+ * Resolves the fields named in a filter for a `where` clause.
+ */
+export interface FieldResolver {
+  /**
+   * Gets the key used in the `where` clause for a field.
+   */
+  key(field: string): string;
+
+  /**
+   * Gets a reference to the column of a field, for operators which apply a function to it.
+   */
+  column(field: string): any;
+
+  /**
+   * Wraps the conditions on a field, e.g. to match them in a subquery, optional.
+   */
+  scope?(field: string, conditions: any[]): any[];
+}
+
+
+const identityResolver: FieldResolver = {
+  key: _.identity,
+  column: (field) => Sequelize.col(field)
+};
+
+
+/**
+ * Translates a Corrieneuch filter into a Sequelize `where` clause.
+ * @param filter the filter, as given by `QueryOptions.filter()`
+ * @param extra an additional filter which must also match, e.g. constraints, optional
+ * @param resolve resolves the fields named in the filter, optional
+ * @param resolveExtra resolves the fields named in the additional filter, defaulting to `resolve`
+ */
+export function translateFilter(filter, extra?, resolve: FieldResolver = identityResolver, resolveExtra: FieldResolver = resolve) {
+  if (!filter)
+    return extra && translateConditions(extra, resolveExtra);
+
+  if (extra) {
+    return {$and: [translateConditions(filter, resolve), translateConditions(extra, resolveExtra)]};
+
+  } else {
+    return translateConditions(filter, resolve);
+  }
+}
+
+
+/**
+ * Gets the names of all the fields referenced in a filter.
+ * @param filter the filter, as given by `QueryOptions.filter()`
+ */
+export function filterFields(filter): string[] {
+  if (!_.isPlainObject(filter))
+    return [];
+
+  return _.uniq(_.flatMap(Object.keys(filter), (k) => {
+    const value = filter[k];
+
+    if (k === '$and' || k === '$or' || k === '$nor') {
+      return Array.isArray(value) ? _.flatMap(value, filterFields) : [];
+
+    } else if (k === '$not') {
+      return filterFields(value);
+
+    } else if (k[0] === '$') {
+      return [];
+
+    } else {
+      return [k];
+    }
+  }));
+}
+
+
+function translateConditions(filter, resolve: FieldResolver) {
+  if (!_.isPlainObject(filter))
+    throw new InvalidQueryError('filter must be an object');
+
+  let conditions = [];
+
+  for (let k in filter) {
+    const value = filter[k];
+
+    if (k === '$and' || k === '$or' || k === '$nor') {
+      if (!Array.isArray(value))
+        throw new InvalidQueryError(`filter operator ${k} requires an array`);
+
+      const translated = value.map((filter) => translateConditions(filter, resolve));
+      conditions.push(k === '$nor' ? {$not: {$or: translated}} : {[k]: translated});
+
+    } else if (k === '$not') {
+      conditions.push({$not: translateConditions(value, resolve)});
+
+    } else if (k[0] === '$') {
+      throw new InvalidQueryError(`unsupported filter operator ${k}`);
+
+    } else {
+      const translated = translateField(k, value, resolve);
+      conditions.push(...(resolve.scope ? resolve.scope(k, translated) : translated));
+    }
+  }
+
+  return conditions.length === 1 ? conditions[0] : {$and: conditions};
+}
+
+
+function translateField(field: string, value, resolve: FieldResolver): any[] {
+  if (!_.isPlainObject(value))
+    return [{[resolve.key(field)]: value}];
+
+  return Object.keys(value).map((op) => translateOperator(field, op, value[op], resolve));
+}
+
+
+function translateOperator(field: string, op: string, operand, resolve: FieldResolver) {
+  const key = resolve.key(field);
+
+  if (op === '$like') {
+    if (typeof operand !== 'string')
+      throw new InvalidQueryError(`filter operator $like on key ${key} requires a string`);
+
+    return Sequelize.where(Sequelize.fn('lower', resolve.column(field)), {$like: operand.toLowerCase()});
+
+  } else if (op === '$exists') {
+    return {[key]: operand ? {$ne: null} : null};
+
+  } else if (op === '$not') {
+    if (!_.isPlainObject(operand))
+      throw new InvalidQueryError(`filter operator $not on key ${key} requires an object`);
+
+    return {$not: translateField(field, operand, resolve)};
+
+  } else if (op in comparisonOperators) {
+    if ((op === '$in' || op === '$nin') && !Array.isArray(operand))
+      throw new InvalidQueryError(`filter operator ${op} on key ${key} requires an array`);
+
+    return {[key]: {[comparisonOperators[op]]: operand}};
+
+  } else {
+    throw new InvalidQueryError(`unsupported filter operator ${op} on key ${key}`);
+  }
+}
@@ -1,7 +1,28 @@
 import * as _ from 'lodash';
+import * as crypto from 'crypto';
+import * as querystring from 'querystring';
+import {Readable} from 'stream';
 import * as Corrieneuch from 'corrieneuch';
 import * as Sequelize from 'sequelize';
 import * as filtr from 'filtr';
+import {DbResourceError, InvalidQueryError, ConstraintViolationError, ValidationError, ConflictError, PreconditionFailedError, NotFoundError, translateError} from './errors';
+import {translateFilter, filterFields, FieldResolver} from './filter';
+import {CacheAdapter, CacheStats} from './cache';
+import {AuditChange, AuditEntry, AuditOperation, diffAttributes} from './audit';
+
+export {
+  ErrorBody,
+  DbResourceError,
+  InvalidQueryError,
+  ConstraintViolationError,
+  ValidationError,
+  ConflictError,
+  NotFoundError,
+  PreconditionFailedError
+} from './errors';
+
+export {CacheAdapter, CacheStats, LruCache} from './cache';
+export {AuditOperation, AuditChange, AuditEntry, defineAuditModel} from './audit';
 
 /**
  * Convenience wrapper for `Sequelize.Model`.
@@ -19,6 +40,361 @@ export type SequelizeInclude = Sequelize.Model<any, any> | Sequelize.IncludeOpti
 export interface EntityRelationship {
   relationship: SequelizeInclude;
   link: string;
+
+  /**
+   * The collection on the other side of the relationship, whose own relationships can then be
+   * included with dotted paths, e.g. `include=author.group`, optional
+   */
+  collection?: DbResourceCollection<any>;
+};
+
+/**
+ * The relationships requested with the `include` option, keyed by name, with any nested includes.
+ */
+interface IncludeTree {
+  [name: string]: {
+    relationship: EntityRelationship;
+    include: IncludeTree;
+    fields: string[];
+  };
+};
+
+/**
+ * How a bulk operation handles items which fail: `atomic` rolls back every item if any fails,
+ * while `partial` commits the items which succeed.
+ */
+export type BulkMode = 'atomic' | 'partial';
+
+/**
+ * The outcome of a single item in a bulk operation.
+ */
+export interface BulkItemResult {
+  /**
+   * The resource created or updated, or null if the resource to update wasn't found.
+   */
+  resource?: Corrieneuch.Resource;
+
+  /**
+   * The number of rows deleted.
+   */
+  count?: number;
+
+  /**
+   * The error which caused the item to fail.
+   */
+  error?: Error;
+};
+
+/**
+ * The outcome of a bulk operation.
+ */
+export interface BulkResult {
+  /**
+   * Whether the changes were committed; false when in `atomic` mode and any item failed.
+   */
+  committed: boolean;
+
+  /**
+   * The outcome of each item, in the order given.
+   */
+  items: BulkItemResult[];
+};
+
+/**
+ * The outcome of `upsert`.
+ */
+export interface UpsertResult {
+  /**
+   * Whether the resource was created, rather than updated.
+   */
+  created: boolean;
+
+  /**
+   * The resource created or updated.
+   */
+  resource: Corrieneuch.Resource;
+};
+
+/**
+ * An aggregate function which can be computed by `aggregate`.
+ */
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+/**
+ * A unit to which dates can be truncated when grouping by them.
+ */
+export type DateTruncation = 'year' | 'quarter' | 'month' | 'week' | 'day' | 'hour';
+
+/**
+ * A field to group by in `aggregate`: either an attribute name, or a date attribute truncated to the given unit, which
+ * will be named `as` in the results (or the attribute name, if not given).  Truncating dates needs Postgres.
+ */
+export type AggregateGroup = string | {field: string, trunc: DateTruncation, as?: string};
+
+/**
+ * The groups and aggregate values computed by `aggregate`.
+ */
+export interface Aggregation {
+  /**
+   * The fields to group by, whose values will be included in each element; if not given, there is a single group.
+   */
+  groupBy?: AggregateGroup[];
+
+  /**
+   * The aggregate values to compute for each group, keyed by the attribute name to give them.  The `field` may be
+   * left out for `count`, to count rows.
+   */
+  aggregates: _.Dictionary<{fn: AggregateFunction, field?: string}>;
+};
+
+/**
+ * How `list` counts the resources for `number` paging: `exact` counts them, `estimated` uses the Postgres
+ * planner's statistics for the table when nothing filters the list, and `none` doesn't count them at all.
+ */
+export type CountMode = 'exact' | 'estimated' | 'none';
+
+/**
+ * Which soft-deleted rows `list` and `get` see: `include` sees them as well as the rest, `only` sees nothing else.
+ */
+export type DeletedMode = 'include' | 'only';
+
+/**
+ * The format written by `export`: `ndjson` writes a JSON object per line, `csv` a header row and a row per resource.
+ */
+export type ExportFormat = 'ndjson' | 'csv';
+
+/**
+ * Information about the current request, e.g. the authenticated user, set with `withContext`.
+ */
+export interface RequestContext {
+  [key: string]: any;
+};
+
+/**
+ * The kinds of access to existing rows which an `AccessPolicy` can restrict.
+ */
+export type PolicyAction = 'read' | 'update' | 'delete';
+
+/**
+ * Decides what the request context may see and change in a collection, given as its `policy` option.
+ * The policy of each relationship's `collection` also applies to its included resources.
+ */
+export interface AccessPolicy {
+  /**
+   * Gets a filter which rows must match to be read, updated or deleted in the given context, or null
+   * for no restriction.  The filter names fields as in the model, and may not refer to relationships.
+   */
+  filter?(context: RequestContext, action: PolicyAction): Corrieneuch.FilterSpec;
+
+  /**
+   * Checks the attributes to be written by `create` or `update`, named as in the model, returning false
+   * (or throwing) if they may not be written in the given context.
+   */
+  validate?(context: RequestContext, action: 'create' | 'update', attributes: any): boolean | void;
+
+  /**
+   * Gets the names of the attributes which may be seen in the given context, as in the API, or null for all.
+   */
+  fields?(context: RequestContext): string[];
+};
+
+/**
+ * The names of the lifecycle hooks run by a resource collection.
+ */
+export type HookName = 'beforeList' | 'afterList' | 'beforeGet' | 'afterGet'
+  | 'beforeCreate' | 'afterCreate' | 'beforeUpdate' | 'afterUpdate' | 'beforeDelete' | 'afterDelete';
+
+/**
+ * The information passed to a lifecycle hook.  Before hooks may change `query` or `attributes`, and
+ * after hooks may change `resource`.
+ */
+export interface HookEvent {
+  context: RequestContext;
+  transaction: Sequelize.Transaction;
+  url?: string;
+  id?: any;
+  options?: Corrieneuch.QueryOptions;
+  query?: any;
+  attributes?: any;
+  resource?: Corrieneuch.Resource;
+  count?: number;
+};
+
+/**
+ * A lifecycle hook, which may throw to abort the operation.  If it returns a resource, that replaces
+ * the resource in the event.
+ */
+export type Hook = (event: HookEvent) => void | Corrieneuch.Resource | PromiseLike<void | Corrieneuch.Resource>;
+
+/**
+ * Options for configuring a resource collection.
+ */
+export interface DbResourceCollectionOptions {
+  /**
+   * The type of paging used by `list`: `number` (the default) uses `limit`/`offset`, while `cursor`
+   * uses opaque `after`/`before` cursors built from the sort keys.
+   */
+  paging?: 'number' | 'cursor';
+
+  /**
+   * The attributes which may be set by `create`; all attributes may be set if not given.
+   */
+  creatable?: string[];
+
+  /**
+   * The attributes which may be set by `update`; all attributes may be set if not given.
+   */
+  updatable?: string[];
+
+  /**
+   * Attributes which may never be set, e.g. `id` or `createdAt`.
+   */
+  readOnly?: string[];
+
+  /**
+   * Attributes which may be set by `create` but not changed by `update`.
+   */
+  immutable?: string[];
+
+  /**
+   * What to do with unknown or unwritable attributes in a payload: `strip` (the default) silently removes them,
+   * while `reject` throws a `ValidationError`.
+   */
+  unwritable?: 'reject' | 'strip';
+
+  /**
+   * What to do when the resource given to `get`, `update`, `delete` or another single-resource method doesn't
+   * exist: `null` (the default) returns null, false or a zero count, while `throw` throws a `NotFoundError`.
+   */
+  notFound?: 'null' | 'throw';
+
+  /**
+   * The attributes which identify a resource for `upsert`, which should have a unique index, e.g. `['email']`.
+   */
+  naturalKey?: string[];
+
+  /**
+   * The attributes identifying each resource in URLs and in the `id` given to methods, defaulting to the model's
+   * primary key.  Composite keys are written in URLs as their values separated by commas, e.g. `3,7`.
+   */
+  primaryKey?: string[];
+
+  /**
+   * An attribute with unique values, e.g. `slug`, which `get` also looks resources up by.
+   */
+  alternateKey?: string;
+
+  /**
+   * Lifecycle hooks to run, keyed by name.
+   */
+  hooks?: {[name in HookName]?: Hook | Hook[]};
+
+  /**
+   * The attribute holding the version of each resource, for optimistic concurrency, or `false` for none.
+   * Defaults to the model's version attribute if it has one, or else `updatedAt` if it has timestamps.
+   */
+  version?: string | false;
+
+  /**
+   * The attributes searched by the text given to `withSearch`, or options for searching.
+   */
+  search?: string[] | SearchOptions;
+
+  /**
+   * The names used in the API for model attributes, keyed by attribute.
+   */
+  rename?: _.Dictionary<string>;
+
+  /**
+   * Attributes which are never returned, and can't be filtered, sorted or written through the API.
+   */
+  hidden?: string[];
+
+  /**
+   * Read-only attributes computed from each row, keyed by name.
+   */
+  computed?: _.Dictionary<ComputedAttribute>;
+
+  /**
+   * The access policy applied to every operation, in the context given by `withContext`.
+   */
+  policy?: AccessPolicy;
+
+  /**
+   * How `list` counts the resources with `number` paging, defaulting to `exact`.
+   */
+  count?: CountMode;
+
+  /**
+   * The cache to keep the results of `get` and `list` in, which writes through the collection invalidate.
+   */
+  cache?: CacheAdapter;
+
+  /**
+   * Where to record every write, for an audit trail.
+   */
+  audit?: AuditOptions;
+
+  /**
+   * The number of rows `export` fetches at a time, defaulting to 1000.
+   */
+  exportBatchSize?: number;
+};
+
+/**
+ * Options for recording an audit trail, given as the `audit` option of a collection.
+ */
+export interface AuditOptions {
+  /**
+   * The model to write entries to, with the attributes of `AuditEntry`, e.g. from `defineAuditModel`.
+   */
+  model: Sequelize.Model<any, AuditEntry>;
+
+  /**
+   * The name of the collection in entries, defaulting to the name of its model.
+   */
+  collection?: string;
+
+  /**
+   * Gets who is making a change from the request context, defaulting to its `actor`.
+   */
+  actor?: (context: RequestContext) => any;
+};
+
+/**
+ * An attribute whose value is computed from the row, given as one of the `computed` options of a collection.
+ */
+export interface ComputedAttribute {
+  /**
+   * The model attributes the value is computed from, which are selected whenever it is asked for with `fields`.
+   * The value is only computed when they have all been selected.
+   */
+  attributes?: string[];
+
+  /**
+   * Computes the value from the row's model attributes, including hidden ones.
+   */
+  get: (row: any) => any;
+};
+
+/**
+ * Options for free-text search, given as the `search` option of a collection.
+ */
+export interface SearchOptions {
+  /**
+   * The attributes to search.
+   */
+  fields: string[];
+
+  /**
+   * The Postgres text search configuration to use, defaulting to `english`.
+   */
+  language?: string;
+
+  /**
+   * Whether to sort the results by relevance when no other sort is given, with Postgres.
+   */
+  rank?: boolean;
 };
 
 /**
@@ -26,257 +402,2623 @@ export interface EntityRelationship {
  */
 export default class DbResourceCollection<TEntity> {
   /**
-   * Constructor.
-   * @param model the model representing the collection
-   * @param relationships any relationships the resource collection has with other models, to support the `includes` option, optional
+   * Constructor.
+   * @param model the model representing the collection
+   * @param relationships any relationships the resource collection has with other models, to support the `includes` option, optional
+   * @param config options for configuring the collection, optional
+   */
+  constructor(private model: Sequelize.Model<Sequelize.Instance<TEntity>, TEntity>, private relationships: _.Dictionary<EntityRelationship> = {}, private config: DbResourceCollectionOptions = {}) {
+    this.hooks = _.mapValues(config.hooks, (hooks) => [].concat(hooks));
+    this.cacheStats = {hits: 0, misses: 0};
+  }
+
+
+  /**
+   * The transaction used by default by every method, set by `withTransaction`.
+   */
+  private boundTransaction: Sequelize.Transaction = null;
+
+  /**
+   * The request context passed to hooks, set by `withContext`.
+   */
+  private boundContext: RequestContext = {};
+
+  /**
+   * Whether `list` and `get` see soft-deleted rows of paranoid models, set by `withDeleted`.
+   */
+  private boundDeleted: DeletedMode = null;
+
+  /**
+   * The text to search for in the `search` attributes, set by `withSearch`.
+   */
+  private boundSearch: string = null;
+
+  /**
+   * How `list` counts the resources, set by `withCount`, overriding the `count` option.
+   */
+  private boundCount: CountMode = null;
+
+  /**
+   * Joins restricting the resources `list` sees, set by `listRelated` to go through the join table of a
+   * many-to-many relationship.
+   */
+  private boundJoins: Sequelize.IncludeOptions[] = [];
+
+  /**
+   * The lifecycle hooks to run, keyed by name.
+   */
+  private hooks: _.Dictionary<Hook[]>;
+
+  /**
+   * The number of cache lookups made by the collection and its copies.
+   */
+  private cacheStats: CacheStats;
+
+
+  /**
+   * Gets a copy of the collection which runs every method in the given transaction by default.
+   * @param transaction the transaction
+   */
+  withTransaction(transaction: Sequelize.Transaction): DbResourceCollection<TEntity> {
+    return this._clone({boundTransaction: transaction});
+  }
+
+
+  /**
+   * Gets a copy of the collection which passes the given request context to hooks.
+   * @param context information about the current request
+   */
+  withContext(context: RequestContext): DbResourceCollection<TEntity> {
+    return this._clone({boundContext: context});
+  }
+
+
+  /**
+   * Gets a copy of the collection whose `list` and `aggregate` methods only see resources matching the given text,
+   * in the attributes configured with the `search` option, instead of any given by the `q` query parameter.
+   * @param text the text to search for; if empty, there is no search
+   */
+  withSearch(text: string): DbResourceCollection<TEntity> {
+    return this._clone({boundSearch: text});
+  }
+
+
+  /**
+   * Gets a copy of the collection whose `list` method counts resources in the given way, e.g. `none` for
+   * a request which doesn't need the count.
+   * @param mode how to count the resources
+   */
+  withCount(mode: CountMode): DbResourceCollection<TEntity> {
+    return this._clone({boundCount: mode});
+  }
+
+
+  /**
+   * Gets a copy of the collection whose `list` and `get` methods see soft-deleted rows, for paranoid models.
+   * @param mode `include` to see deleted rows as well as the rest (the default), or `only` to see only deleted rows
+   */
+  withDeleted(mode: DeletedMode = 'include'): DbResourceCollection<TEntity> {
+    return this._clone({boundDeleted: mode});
+  }
+
+
+  /**
+   * Adds a lifecycle hook, to run after any added before it.  Copies made by `withContext` and the other
+   * `with` methods keep the hooks they had when they were made.
+   * @param name the name of the hook
+   * @param hook the hook function
+   */
+  addHook(name: HookName, hook: Hook) {
+    // copy on write, as clones share the dictionary
+    this.hooks = {...this.hooks, [name]: [...(this.hooks[name] || []), hook]};
+  }
+
+
+  /**
+   * Gets the number of `get` and `list` calls answered from the `cache`, and those which weren't.
+   */
+  getCacheStats(): CacheStats {
+    return {...this.cacheStats};
+  }
+
+
+  /**
+   * Gets a list of resources.
+   * @param url the current URL of the request
+   * @param options the query options, parsed from the querystring
+   * @param transaction the transaction to run in, optional
+   */
+  async list(url: string, options: Corrieneuch.QueryOptions, filter?: Corrieneuch.FilterSpec, transaction: Sequelize.Transaction = this.boundTransaction): Promise<Corrieneuch.Resource> {
+    let cacheKey = this._getCacheKey(transaction, ['beforeList', 'afterList'], 'list', url, options.toString(), filter);
+    let cached = await this._cacheGet(cacheKey);
+
+    if (cached)
+      return cached;
+
+    let resource = this.config.paging === 'cursor'
+      ? await this._listByCursor(url, options, filter, transaction)
+      : await this._listByNumber(url, options, filter, transaction);
+
+    let event = await this._runHooks('afterList', {url, options, resource, transaction});
+    await this._cacheSet(cacheKey, event.resource);
+    return event.resource;
+  }
+
+
+  /**
+   * Gets a list of resources using `number` paging.
+   * @param url the current URL of the request
+   * @param options the query options, parsed from the querystring
+   */
+  private async _listByNumber(url: string, options: Corrieneuch.QueryOptions, filter: Corrieneuch.FilterSpec, transaction: Sequelize.Transaction): Promise<Corrieneuch.Resource> {
+    let page = options.page('number');
+    let includeTree = this._getIncludeTree(options);
+    let includeRelationships = this._getIncludeOptions(includeTree, options);
+    let joins = [...this._getJoins(options, filter), ...this.boundJoins];
+
+    let search = this._getSearch(options);
+
+    let query: Sequelize.FindOptions<TEntity> = _.pickBy({
+      limit: page.size,
+      offset: (page.number - 1) * page.size,
+      where: andWhere(this._getWhere(options.filter(), filter, 'read'), search && search.where),
+      attributes: this._selectAttributes(options, includeTree),
+      order: this._getSortOptions(options) || (search && search.rank && [[search.rank, 'DESC']]),
+      include: [...includeRelationships, ...joins],
+      transaction
+    }, (v) => v != null);
+
+    let event = await this._runHooks('beforeList', {url, options, query: this._scopeDeleted(query), transaction});
+    let mode = this.boundCount || this.config.count || 'exact';
+    let rows: Sequelize.Instance<TEntity>[];
+    let count: number = null;
+    let more: boolean;
+
+    // only Postgres keeps statistics to estimate from
+    if (mode === 'estimated' && this._sequelize.getDialect() !== 'postgres')
+      mode = 'exact';
+
+    // the statistics are for the whole table, which says nothing of how many rows match a filter, search,
+    // constraints or policy, so there's no count rather than a misleading one
+    if (mode === 'estimated' && (event.query.where || this.boundJoins.length))
+      mode = 'none';
+
+    if (mode === 'exact') {
+      // to-many relationships are never joined, so the rows aren't repeated and needn't be counted distinctly,
+      // which Sequelize could only do on the first column of a composite key
+      let result = await this.model.findAndCountAll(event.query);
+      rows = result.rows;
+      count = result.count;
+
+    } else {
+      // fetch one extra row to tell whether there's a next page
+      rows = await this.model.findAll({...event.query, limit: page.size + 1});
+      more = rows.length > page.size;
+      rows = rows.slice(0, page.size);
+
+      if (mode === 'estimated') {
+        // a page which isn't full is the last, so the rows seen up to it are all there are
+        const seen = (page.number - 1) * page.size + rows.length + (more ? 1 : 0);
+        count = rows.length && !more ? seen : Math.max(await this._estimateCount(transaction), seen);
+      }
+    }
+
+    await this._loadIncludes(rows, includeTree, options, transaction);
+
+    // relationships joined to filter or sort on aren't included in the resources
+    let omit = [...joins.map(includeAlias), ...this._getUnrequestedAttributes(options)];
+
+    let elements = rows.map(
+      (user) => this._toResource(this._getResourceUrl(url, user), user, omit, options.fieldsFor('$self'))
+    );
+    
+    let pageCount = count == null ? null : Math.ceil(count / page.size);
+
+    let meta: Corrieneuch.ResourceMeta = {
+      page: {
+        number: page.number,
+        size: page.size
+      }
+    };
+
+    if (count != null) {
+      meta.count = count;
+      meta.page.count = pageCount;
+
+      if (mode === 'estimated')
+        meta.approximate = true;
+    }
+    
+    let resource = new Corrieneuch.Resource(url, elements, meta);
+    resource.addLinks(this._getPageLinks(url, options, numberPageLinks(page.number, pageCount, more)));
+    
+    if (!_.isEmpty(includeTree))
+      this._convertIncludes(resource, resource.elements, includeTree);
+
+    return resource;
+  }
+
+
+  /**
+   * Gets a list of resources using keyset paging, for when the collection is configured
+   * with `paging: 'cursor'`.
+   * @param url the current URL of the request
+   * @param options the query options, parsed from the querystring
+   */
+  private async _listByCursor(url: string, options: Corrieneuch.QueryOptions, filter: Corrieneuch.FilterSpec, transaction: Sequelize.Transaction): Promise<Corrieneuch.Resource> {
+    let page = options.page('cursor');
+    let includeTree = this._getIncludeTree(options);
+    let includeRelationships = this._getIncludeOptions(includeTree, options);
+    let joins = [...this._getJoins(options, filter), ...this.boundJoins];
+    let sort = this._getCursorSort(options);
+    let backwards = !page.after && !!page.before;
+    let cursor = page.after || page.before;
+    let search = this._getSearch(options);
+    let where = andWhere(this._getWhere(options.filter(), filter, 'read'), search && search.where);
+
+    if (cursor)
+      where = andWhere(where, translateCursor(sort, decodeCursor(cursor, sort), backwards));
+
+    let query: Sequelize.FindOptions<TEntity> = _.pickBy({
+      limit: page.size + 1,
+      where,
+      attributes: this._selectAttributes(options, includeTree),
+      order: cursorOrder(sort, backwards),
+      include: [...includeRelationships, ...joins],
+      transaction
+    }, (v) => v != null);
+
+    if (query.attributes) {
+      for (let [key] of sort) {
+        if ((<string[]>query.attributes).indexOf(key) === -1)
+          (<string[]>query.attributes).push(key);
+      }
+    }
+
+    let event = await this._runHooks('beforeList', {url, options, query: this._scopeDeleted(query), transaction});
+    let rows = await this.model.findAll(event.query);
+    let more = rows.length > page.size;
+    rows = rows.slice(0, page.size);
+
+    if (backwards)
+      rows.reverse();
+
+    await this._loadIncludes(rows, includeTree, options, transaction);
+
+    let omit = [...joins.map(includeAlias), ...this._getUnrequestedAttributes(options)];
+
+    let elements = rows.map(
+      (row) => this._toResource(this._getResourceUrl(url, row), row, omit, options.fieldsFor('$self'))
+    );
+
+    let meta: Corrieneuch.ResourceMeta = {
+      page: {size: page.size}
+    };
+
+    let links: _.Dictionary<any> = {
+      $first: {after: undefined, before: undefined}
+    };
+
+    if (rows.length && (backwards ? more : !!cursor))
+      links.$previous = {after: undefined, before: encodeCursor(rows[0], sort)};
+
+    if (rows.length && (backwards || more))
+      links.$next = {after: encodeCursor(rows[rows.length - 1], sort), before: undefined};
+
+    let resource = new Corrieneuch.Resource(url, elements, meta);
+    resource.addLinks(this._getPageLinks(url, options, links));
+
+    if (!_.isEmpty(includeTree))
+      this._convertIncludes(resource, resource.elements, includeTree);
+
+    return resource;
+  }
+
+
+  /**
+   * Gets a list of the resources related to a resource through one of its relationships, paged, sorted and
+   * filtered as for `list`, or null if the resource doesn't exist.  The related resources are listed by the
+   * `collection` of the relationship, if it has one.
+   * @param url the current URL of the request
+   * @param parentId the ID of the resource whose related resources are sought
+   * @param name the name of the relationship, as given to the constructor
+   * @param options the query options, parsed from the querystring
+   * @param constraints a filter the resource must match, optional
+   * @param transaction the transaction to run in, optional
+   */
+  async listRelated(url: string, parentId: any, name: string, options: Corrieneuch.QueryOptions, constraints?: Corrieneuch.FilterSpec, transaction: Sequelize.Transaction = this.boundTransaction): Promise<Corrieneuch.Resource> {
+    const association = this._getAssociation(name);
+
+    if (!association)
+      throw new InvalidQueryError(`unknown relationship ${name}`);
+
+    const parent = await this.model.findOne(<any>{where: andWhere({...this._getKeyWhere(parentId), ...constraints}, this._getPolicyWhere('read')), transaction});
+
+    if (!parent)
+      return this._notFound(parentId);
+
+    let collection = this._collectionFor(this.relationships[name]);
+    let filter: Corrieneuch.FilterSpec;
+
+    if (association.associationType === 'BelongsTo') {
+      filter = {[association.targetKey]: parent.get(association.foreignKey)};
+
+    } else if (association.associationType === 'BelongsToMany') {
+      // join the related resources to their rows in the join table, as Sequelize does for the association's getter
+      const through = association.oneFromTarget;
+
+      collection = collection._clone({boundJoins: [{
+        association: through,
+        model: through.target,
+        as: through.as,
+        attributes: [],
+        required: true,
+        where: {...association.through.scope, [association.foreignKey]: parent.get(association.source.primaryKeyAttribute)}
+      }]});
+
+    } else {
+      filter = {[association.foreignKey]: parent.get(association.sourceKey)};
+    }
+
+    return await collection.list(url, options, filter, transaction);
+  }
+
+
+  /**
+   * Gets a list of aggregate values, with one element per group.  The filter and page options apply as for `list`,
+   * while the sort option refers to the names of the group fields and aggregate values.
+   * @param url the current URL of the request
+   * @param options the query options, parsed from the querystring
+   * @param aggregation the fields to group by and the aggregate values to compute
+   * @param transaction the transaction to run in, optional
+   */
+  async aggregate(url: string, options: Corrieneuch.QueryOptions, aggregation: Aggregation, filter?: Corrieneuch.FilterSpec, transaction: Sequelize.Transaction = this.boundTransaction): Promise<Corrieneuch.Resource> {
+    const page = options.page('number');
+    const groups = _.fromPairs((aggregation.groupBy || []).map((group) => this._getAggregateGroup(group)));
+    const aggregates = _.mapValues(aggregation.aggregates, ({fn, field}) => this._getAggregateFunction(fn, field));
+    const columns = {...groups, ...aggregates};
+
+    const order = _.map(options.sort(), (direction, key: string) => {
+      if (!columns[key])
+        throw new InvalidQueryError(`cannot sort by ${key}`);
+
+      return [columns[key], direction === 1 ? 'ASC' : 'DESC'];
+    });
+
+    const search = this._getSearch(options);
+
+    const query: Sequelize.FindOptions<TEntity> = this._scopeDeleted(_.pickBy({
+      where: andWhere(this._getWhere(options.filter(), filter, 'read'), search && search.where),
+      include: this._getJoins(options, filter, {}),
+      group: _.values(groups),
+      transaction
+    }, (v) => v != null));
+
+    let rows: any[];
+    let count: number;
+
+    try {
+      rows = await this.model.findAll(<any>{
+        ...query,
+        attributes: _.map(columns, (column, name: string) => [column, name]),
+        order,
+        limit: page.size,
+        offset: (page.number - 1) * page.size,
+        subQuery: false,
+        raw: true
+      });
+
+      count = _.isEmpty(groups) ? 1 : (<any>await this.model.count(<any>query)).length;
+
+    } catch (err) {
+      throw translateError(err);
+    }
+
+    const pageCount = Math.ceil(count / page.size);
+
+    const elements = rows.map((row) => new Corrieneuch.Resource(null, _.mapValues(row, (value, name: string) => {
+      if (value instanceof Date)
+        return value.toISOString();
+
+      // Postgres returns bigint and numeric values as strings
+      if (value != null && aggregates[name] && ['count', 'sum', 'avg'].indexOf(aggregation.aggregates[name].fn) !== -1)
+        return Number(value);
+
+      return value;
+    })));
+
+    const meta: Corrieneuch.ResourceMeta = {
+      count,
+      page: {
+        number: page.number,
+        size: page.size,
+        count: pageCount
+      }
+    };
+
+    let resource = new Corrieneuch.Resource(url, elements, meta);
+    resource.addLinks(this._getPageLinks(url, options, numberPageLinks(page.number, pageCount)));
+    return resource;
+  }
+
+
+  /**
+   * Gets a stream of the attributes of every resource matching the filter, in the sorted order, without paging.
+   * The rows are fetched in batches, each starting after the last row of the one before, so they are never all
+   * held in memory.
+   * @param options the query options, parsed from the querystring; the page option is ignored
+   * @param constraints a filter the resources must match, optional
+   * @param format the format to write, optional
+   * @param transaction the transaction to run in, optional
+   */
+  export(options: Corrieneuch.QueryOptions, constraints?: Corrieneuch.FilterSpec, format: ExportFormat = 'ndjson', transaction: Sequelize.Transaction = this.boundTransaction): Readable {
+    if (format !== 'ndjson' && format !== 'csv')
+      throw new InvalidQueryError(`unknown export format ${format}`);
+
+    const sort = this._getCursorSort(options);
+    const joins = this._getJoins(options, constraints, {});
+    const search = this._getSearch(options);
+    const where = andWhere(this._getWhere(options.filter(), constraints, 'read'), search && search.where);
+    const attributes = this._selectFields(options.fieldsFor('$self'), {});
+
+    // sort keys are selected to find where each batch starts, but only written if they were asked for
+    const sortKeys = attributes ? sort.map(([key]) => key).filter((key) => attributes.indexOf(key) === -1) : [];
+    const omit = [...joins.map(includeAlias), ...sortKeys];
+
+    const batchSize = this.config.exportBatchSize || defaultExportBatchSize;
+    let last: Sequelize.Instance<TEntity> = null;
+    let done = false;
+    let columns: string[] = null;
+
+    const readBatch = async (): Promise<string> => {
+      const query: Sequelize.FindOptions<TEntity> = _.pickBy({
+        limit: batchSize,
+        where: last ? andWhere(where, translateCursor(sort, _.fromPairs(sort.map(([key]) => [key, last.get(key)])), false)) : where,
+        attributes: attributes && [...attributes, ...sortKeys],
+        order: cursorOrder(sort, false),
+        include: joins,
+        transaction
+      }, (v) => v != null);
+
+      const rows = await this.model.findAll(this._scopeDeleted(query));
+      last = rows[rows.length - 1];
+      done = rows.length < batchSize;
+      let chunk = '';
+
+      for (let row of rows) {
+        const values = this._presentAttributes(_.omit(row.get(), omit), options.fieldsFor('$self'));
+
+        if (format === 'ndjson') {
+          chunk += JSON.stringify(values) + '\n';
+
+        } else {
+          if (!columns) {
+            columns = Object.keys(values);
+            chunk += csvLine(columns);
+          }
+
+          chunk += csvLine(columns.map((column) => values[column]));
+        }
+      }
+
+      return chunk;
+    };
+
+    const stream = new Readable({
+      read: () => {
+        readBatch().then((chunk) => {
+          if (chunk)
+            stream.push(chunk);
+
+          if (done)
+            stream.push(null);
+
+        }, (err) => stream.destroy(this._translateError(err)));
+      }
+    });
+
+    return stream;
+  }
+
+
+  /**
+   * Gets a single resource with the specified ID, or null if it does not exist.
+   * @param url the current URL
+   * @param id the ID of the resource sought
+   * @param options the query options, parsed from the querystring
+   * @param transaction the transaction to run in, optional
+   */
+  async get(url: string, id: any, options: Corrieneuch.QueryOptions, filter?: Corrieneuch.FilterSpec, transaction: Sequelize.Transaction = this.boundTransaction): Promise<Corrieneuch.Resource> {
+    let cacheKey = this._getCacheKey(transaction, ['beforeGet', 'afterGet'], `get:${this._formatId(id)}`, url, options.toString(), filter);
+    let cached = await this._cacheGet(cacheKey);
+
+    if (cached)
+      return cached;
+
+    let includeTree = this._getIncludeTree(options);
+    let includeRelationships = this._getIncludeOptions(includeTree, options);
+    
+    let query: Sequelize.FindOptions<TEntity> = _.pickBy({
+      where: andWhere(andWhere(this._getLookupWhere(id), filter), this._getPolicyWhere('read', (<any>this.model).name)),
+      attributes: this._selectAttributes(options, includeTree),
+      include: includeRelationships,
+      transaction
+    }, (v) => v != null);
+
+    let before = await this._runHooks('beforeGet', {url, id, options, query: this._scopeDeleted(query), transaction});
+
+    // an ID may be the key of one resource and the alternate key of another, so look for both
+    let result = this.config.alternateKey
+      ? this._preferKey(await this.model.findAll({...before.query, limit: 2}), id)
+      : await this.model.findOne(before.query);
+    
+    if (!result) {
+      return this._notFound(id);
+
+    } else {
+      await this._loadIncludes([result], includeTree, options, transaction);
+      let resource = this._toResource(this._getResourceUrl(url, result), result, this._getUnrequestedAttributes(options), options.fieldsFor('$self'));
+      
+      if (!_.isEmpty(includeTree))
+        this._convertIncludes(resource, [resource], includeTree);
+
+      let after = await this._runHooks('afterGet', {url, id, options, resource, transaction});
+      await this._cacheSet(cacheKey, after.resource);
+      return after.resource;
+    }
+  }
+
+
+  /**
+   * Creates a resource.
+   * @param url the current URL
+   * @param payload the request payload, must contain `attributes`, and may contain `relationships` to link
+   * @param transaction the transaction to run in, optional
+   */
+  async create(url: string, payload: any, constraints?, transaction: Sequelize.Transaction = this.boundTransaction): Promise<Corrieneuch.Resource> {
+    const {keys, links} = this._getRelationshipWrites(payload.relationships);
+    const attributes = this._getWritableAttributes(payload.attributes, 'create', keys);
+
+    return await this._transaction(transaction, links.length > 0 || !!this.config.audit, async (transaction) => {
+      const before = await this._runHooks('beforeCreate', {url, attributes, transaction});
+      this._checkConstraints(before.attributes, constraints);
+      this._checkPolicy('create', before.attributes);
+      let entity;
+
+      try {
+        entity = await this.model.create(before.attributes, {transaction});
+
+      } catch (err) {
+        throw this._translateError(err);
+      }
+
+      await this._setRelated(entity, links, 'set', transaction);
+      await this._audit('create', [], [entity], transaction);
+      await this._invalidateCache(transaction, this._getId(entity));
+      const resource = this._toResource(this._getResourceUrl(url, entity), entity);
+      const after = await this._runHooks('afterCreate', {url, id: this._getId(entity), resource, transaction});
+      return after.resource;
+    });
+  }
+
+
+  /**
+   * Creates several resources in one transaction.
+   * @param url the current URL
+   * @param payloads the request payloads, each of which must contain `attributes`
+   * @param mode whether to roll back every item if any fails (the default) or commit those that succeed
+   * @param transaction the transaction to run in, optional
+   */
+  async createMany(url: string, payloads: any[], constraints?: Corrieneuch.FilterSpec, mode: BulkMode = 'atomic', transaction: Sequelize.Transaction = this.boundTransaction): Promise<BulkResult> {
+    return await this._bulk(payloads, mode, transaction,
+      async (payload, savepoint) => ({resource: await this.create(url, payload, constraints, savepoint)})
+    );
+  }
+
+
+  /**
+   * Updates a resource.
+   * @param url the current URL
+   * @param payload the request payload, must contain `attributes`, may contain `relationships` to link, and may contain the expected version in `meta.version`
+   * @param transaction the transaction to run in, optional
+   */
+  async update(url: string, id: any, payload: any, constraints?: Corrieneuch.FilterSpec, transaction: Sequelize.Transaction = this.boundTransaction): Promise<Corrieneuch.Resource> {
+    return await this._update(url, id, payload, constraints, false, transaction);
+  }
+
+
+  /**
+   * Replaces a resource, setting any attributes which could be updated but are missing from the payload to
+   * their default values, or null.
+   * @param url the current URL
+   * @param payload the request payload, as for `update`
+   * @param transaction the transaction to run in, optional
+   */
+  async replace(url: string, id: any, payload: any, constraints?: Corrieneuch.FilterSpec, transaction: Sequelize.Transaction = this.boundTransaction): Promise<Corrieneuch.Resource> {
+    return await this._update(url, id, payload, constraints, true, transaction);
+  }
+
+
+  /**
+   * Updates a resource, or with `replace`, resets the attributes missing from the payload.
+   */
+  private async _update(url: string, id: any, payload: any, constraints: Corrieneuch.FilterSpec, replace: boolean, transaction: Sequelize.Transaction): Promise<Corrieneuch.Resource> {
+    const {keys, links} = this._getRelationshipWrites(payload.relationships);
+    const written = this._getWritableAttributes(payload.attributes, 'update', keys);
+    const attributes = replace ? {...this._getResetAttributes(), ...written} : written;
+    const version = payload.meta && payload.meta.version;
+    const where = andWhere({...this._getKeyWhere(id), ...constraints}, this._getPolicyWhere('update'));
+    const query = {where: this._getVersionedWhere(where, version)};
+
+    return await this._transaction(transaction, links.length > 0 || !!this.config.audit, async (transaction) => {
+      const before = await this._runHooks('beforeUpdate', {url, id, attributes, query, transaction});
+      this._checkConstraints(before.attributes, constraints);
+      this._checkPolicy('update', before.attributes);
+
+      const previous = await this._readForAudit(before.query, transaction);
+      let nrows, results;
+
+      try {
+        [nrows, results] = <any>await this.model.update(this._incrementVersion(before.attributes), {
+          ...before.query,
+          returning: true,
+          transaction
+        });
+
+      } catch (err) {
+        throw this._translateError(err);
+      }
+
+      if (typeof nrows === 'undefined') {
+        nrows = results;
+        // TODO: figure out what's wrong with the types here
+        results = [await this.model.findOne(<any>{where: this._getKeyWhere(id), transaction})];
+      }
+
+      if (nrows === 0) {
+        await this._checkVersionConflict(where, version, transaction);
+        return this._notFound(id);
+
+      } else {
+        await this._setRelated(results[0], links, 'set', transaction);
+        await this._audit(replace ? 'replace' : 'update', previous, [results[0]], transaction);
+        await this._invalidateCache(transaction, id);
+        const resource = this._toResource(url, results[0]);
+        const after = await this._runHooks('afterUpdate', {url, id, resource, transaction});
+        return after.resource;
+      }
+    });
+  }
+
+
+  /**
+   * Creates or updates the resource identified by the `naturalKey` option, in one transaction.  If a resource
+   * with the key exists and matches the constraints, it is updated, and otherwise one is created with the key.
+   * Throws a `DbResourceError` if the collection has no natural key.
+   * @param url the current URL
+   * @param key the value of each attribute of the natural key, keyed by attribute, or just the value if there is one
+   * @param payload the request payload, as for `create`
+   * @param transaction the transaction to run in, optional
+   */
+  async upsert(url: string, key: any, payload: any, constraints?: Corrieneuch.FilterSpec, transaction: Sequelize.Transaction = this.boundTransaction): Promise<UpsertResult> {
+    const naturalKey = this.config.naturalKey;
+
+    if (_.isEmpty(naturalKey))
+      throw new DbResourceError('collection has no natural key');
+
+    const values: _.Dictionary<any> = naturalKey.length === 1 && !_.isPlainObject(key) ? {[naturalKey[0]]: key} : _.pick(key, naturalKey);
+
+    if (naturalKey.some((attribute) => values[attribute] == null))
+      throw new InvalidQueryError(`natural key requires ${naturalKey.join(', ')}`);
+
+    const rename = this.config.rename || {};
+    const fields = _.mapKeys(values, (value, attribute: string) => rename[attribute] || attribute);
+    const where = andWhere({...values, ...constraints}, this._getPolicyWhere('update'));
+
+    return await this._transaction(transaction, true, async (transaction) => {
+      const find = () => this.model.findOne(<any>{where, attributes: this._primaryKey, transaction});
+      let existing = await find();
+
+      if (!existing) {
+        try {
+          const resource = await this._sequelize.transaction(<any>{transaction},
+            (savepoint) => this.create(url, {...payload, attributes: {...payload.attributes, ...fields}}, constraints, savepoint)
+          );
+
+          return {created: true, resource};
+
+        } catch (err) {
+          // another request may have created it in the meantime
+          if (!(err instanceof ConflictError) || !(existing = await find()))
+            throw err;
+        }
+      }
+
+      const id = this._getId(existing);
+      const resource = await this.update(this._getResourceUrl(url, existing), id, {...payload, attributes: _.omit(payload.attributes, _.keys(fields))}, constraints, transaction);
+      return {created: false, resource};
+    });
+  }
+
+
+  /**
+   * Updates several resources in one transaction, with the same attributes.
+   * @param url the current URL
+   * @param target either a list of IDs, or a filter matching the resources to update
+   * @param payload the request payload, must contain `attributes`, and may contain `relationships` to link
+   * @param mode whether to roll back every item if any fails (the default) or commit those that succeed
+   * @param transaction the transaction to run in, optional
+   */
+  async updateMany(url: string, target: any[] | Corrieneuch.FilterSpec, payload: any, constraints?: Corrieneuch.FilterSpec, mode: BulkMode = 'atomic', transaction: Sequelize.Transaction = this.boundTransaction): Promise<BulkResult> {
+    if (Array.isArray(target)) {
+      return await this._bulk(target, mode, transaction,
+        async (id, savepoint) => ({resource: await this.update(url + '/' + this._formatId(id), id, payload, constraints, savepoint)})
+      );
+    }
+
+    if (mode === 'partial') {
+      return await this._transaction(transaction, true, async (transaction) =>
+        await this.updateMany(url, await this._findIds(target, constraints, 'update', transaction), payload, constraints, mode, transaction)
+      );
+    }
+
+    try {
+      return await this._sequelize.transaction(<any>{transaction}, async (transaction) => {
+        const {keys, links} = this._getRelationshipWrites(payload.relationships);
+        const attributes = this._getWritableAttributes(payload.attributes, 'update', keys);
+        const query = {where: this._getWhere(target, constraints, 'update'), include: this._getJoins(null, target)};
+        const before = await this._runHooks('beforeUpdate', {url, attributes, query, transaction});
+        this._checkConstraints(before.attributes, constraints);
+        this._checkPolicy('update', before.attributes);
+
+        // select first in case the update stops the rows matching the filter
+        const where = this._getKeysWhere(await this.model.findAll({...before.query, attributes: this._primaryKey, transaction}));
+        const previous = await this._readForAudit({where}, transaction);
+        await this.model.update(this._incrementVersion(before.attributes), {where, transaction});
+        const rows = await this.model.findAll({where, transaction});
+        await this._audit('update', previous, rows, transaction);
+        await this._invalidateCache(transaction);
+        let items: BulkItemResult[] = [];
+
+        for (let row of rows) {
+          await this._setRelated(row, links, 'set', transaction);
+          const resource = this._toResource(this._getResourceUrl(url, row), row);
+          const after = await this._runHooks('afterUpdate', {url, id: this._getId(row), resource, transaction});
+          items.push({resource: after.resource});
+        }
+
+        return {committed: true, items};
+      });
+
+    } catch (err) {
+      return {committed: false, items: [{error: translateError(err)}]};
+    }
+  }
+
+
+  /**
+   * Links a resource to other resources through a to-many relationship, returning false if the resource
+   * doesn't exist.
+   * @param id the ID of the resource
+   * @param name the name of the relationship, as given to the constructor
+   * @param relatedIds the IDs of the resources to link to
+   * @param transaction the transaction to run in, optional
+   */
+  async addRelated(id: any, name: string, relatedIds: any[], constraints?: Corrieneuch.FilterSpec, transaction: Sequelize.Transaction = this.boundTransaction): Promise<boolean> {
+    return await this._changeRelated(id, name, relatedIds, 'add', constraints, transaction);
+  }
+
+
+  /**
+   * Unlinks a resource from other resources through a to-many relationship, returning false if the resource
+   * doesn't exist.
+   * @param id the ID of the resource
+   * @param name the name of the relationship, as given to the constructor
+   * @param relatedIds the IDs of the resources to unlink from
+   * @param transaction the transaction to run in, optional
+   */
+  async removeRelated(id: any, name: string, relatedIds: any[], constraints?: Corrieneuch.FilterSpec, transaction: Sequelize.Transaction = this.boundTransaction): Promise<boolean> {
+    return await this._changeRelated(id, name, relatedIds, 'remove', constraints, transaction);
+  }
+
+
+  private async _changeRelated(id: any, name: string, relatedIds: any[], action: 'add' | 'remove', constraints: Corrieneuch.FilterSpec, transaction: Sequelize.Transaction): Promise<boolean> {
+    const association = this._getAssociation(name);
+
+    if (!association || !association.isMultiAssociation)
+      throw new InvalidQueryError(`${name} is not a to-many relationship`);
+
+    return await this._transaction(transaction, true, async (transaction) => {
+      const instance = await this.model.findOne(<any>{where: andWhere({...this._getKeyWhere(id), ...constraints}, this._getPolicyWhere('update')), transaction});
+
+      if (!instance) {
+        this._notFound(id);
+        return false;
+      }
+
+      const before = await this._readRelatedForAudit(instance, association, transaction);
+      await this._setRelated(instance, [[association, relatedIds.map(relatedId)]], action, transaction);
+      const after = await this._readRelatedForAudit(instance, association, transaction);
+
+      await this._writeAudit(action === 'add' ? 'addRelated' : 'removeRelated', [
+        [this._formatId(this._getId(instance)), diffAttributes({[name]: before}, {[name]: after})]
+      ], transaction);
+
+      await this._invalidateCache(transaction, id);
+      return true;
+    });
+  }
+
+
+  /**
+   * Deletes a resource.
+   * @param id the ID of the resource to delete
+   * @param transaction the transaction to run in, optional
+   * @param version the version the resource is expected to have, optional
+   */
+  async delete(id: any, filter?: Corrieneuch.FilterSpec, transaction: Sequelize.Transaction = this.boundTransaction, version?: any): Promise<number> {
+    const where = andWhere({...this._getKeyWhere(id), ...filter}, this._getPolicyWhere('delete'));
+    const query = {where: this._getVersionedWhere(where, version)};
+
+    return await this._transaction(transaction, !!this.config.audit, async (transaction) => {
+      const before = await this._runHooks('beforeDelete', {id, query, transaction});
+      const previous = await this._readForAudit(before.query, transaction);
+      let count;
+
+      try {
+        count = await this.model.destroy({...before.query, transaction});
+
+      } catch (err) {
+        throw translateError(err);
+      }
+
+      if (count === 0) {
+        await this._checkVersionConflict(where, version, transaction);
+        this._notFound(id);
+
+      } else {
+        await this._audit('delete', previous, [], transaction);
+        await this._invalidateCache(transaction, id);
+      }
+
+      const after = await this._runHooks('afterDelete', {id, count, transaction});
+      return after.count;
+    });
+  }
+
+
+  /**
+   * Deletes several resources in one transaction.
+   * @param target either a list of IDs, or a filter matching the resources to delete
+   * @param mode whether to roll back every item if any fails (the default) or commit those that succeed
+   * @param transaction the transaction to run in, optional
+   */
+  async deleteMany(target: any[] | Corrieneuch.FilterSpec, constraints?: Corrieneuch.FilterSpec, mode: BulkMode = 'atomic', transaction: Sequelize.Transaction = this.boundTransaction): Promise<BulkResult> {
+    if (Array.isArray(target)) {
+      return await this._bulk(target, mode, transaction,
+        async (id, savepoint) => ({count: await this.delete(id, constraints, savepoint)})
+      );
+    }
+
+    if (mode === 'partial') {
+      return await this._transaction(transaction, true, async (transaction) =>
+        await this.deleteMany(await this._findIds(target, constraints, 'delete', transaction), constraints, mode, transaction)
+      );
+    }
+
+    try {
+      return await this._sequelize.transaction(<any>{transaction}, async (transaction) => {
+        const query = {where: this._getWhere(target, constraints, 'delete'), include: this._getJoins(null, target)};
+        const before = await this._runHooks('beforeDelete', {query, transaction});
+
+        // destroy can't join, so select the rows first
+        const where = this._getKeysWhere(await this.model.findAll({...before.query, attributes: this._primaryKey, transaction}));
+        const previous = await this._readForAudit({where}, transaction);
+        const count = await this.model.destroy({where, transaction});
+        await this._audit('delete', previous, [], transaction);
+        await this._invalidateCache(transaction);
+        const after = await this._runHooks('afterDelete', {count, transaction});
+        return {committed: true, items: [{count: after.count}]};
+      });
+
+    } catch (err) {
+      return {committed: false, items: [{error: translateError(err)}]};
+    }
+  }
+
+
+  /**
+   * Gets the IDs of the resources matching a filter, for the bulk methods in `partial` mode.
+   */
+  private async _findIds(filter: Corrieneuch.FilterSpec, constraints: Corrieneuch.FilterSpec, action: PolicyAction, transaction: Sequelize.Transaction): Promise<any[]> {
+    const rows = await this.model.findAll({
+      where: this._getWhere(filter, constraints, action),
+      attributes: this._primaryKey,
+      include: this._getJoins(null, filter),
+      transaction
+    });
+
+    return rows.map((row) => this._getId(row));
+  }
+
+
+  /**
+   * Restores a soft-deleted resource of a paranoid model, throwing a `DbResourceError` for any other model.  A count
+   * of the number of rows restored will be returned.
+   * @param id the ID of the resource to restore
+   * @param transaction the transaction to run in, optional
+   */
+  async restore(id: any, filter?: Corrieneuch.FilterSpec, transaction: Sequelize.Transaction = this.boundTransaction): Promise<number> {
+    const deletedAt = this._deletedAtAttribute;
+
+    if (!deletedAt)
+      throw new DbResourceError('model is not paranoid');
+
+    const where = andWhere({...this._getKeyWhere(id), ...filter, [deletedAt]: {$ne: null}}, this._getPolicyWhere('delete'));
+
+    return await this._transaction(transaction, !!this.config.audit, async (transaction) => {
+      const previous = await this._readForAudit({where, paranoid: false}, transaction);
+      let count;
+
+      try {
+        [count] = await this.model.update(<any>{[deletedAt]: null}, <any>{where, paranoid: false, transaction});
+
+      } catch (err) {
+        throw translateError(err);
+      }
+
+      if (count > 0) {
+        await this._audit('restore', previous, await this._readForAudit({where: this._getKeysWhere(previous)}, transaction), transaction);
+        await this._invalidateCache(transaction, id);
+      }
+
+      return count;
+    });
+  }
+
+
+  /**
+   * Permanently deletes a resource, even from a paranoid model.  A count of the number of rows deleted will be returned.
+   * @param id the ID of the resource to delete
+   * @param transaction the transaction to run in, optional
+   */
+  async purge(id: any, filter?: Corrieneuch.FilterSpec, transaction: Sequelize.Transaction = this.boundTransaction): Promise<number> {
+    const where = andWhere({...this._getKeyWhere(id), ...filter}, this._getPolicyWhere('delete'));
+
+    return await this._transaction(transaction, !!this.config.audit, async (transaction) => {
+      const before = await this._runHooks('beforeDelete', {id, query: {where}, transaction});
+      const previous = await this._readForAudit({...before.query, paranoid: false}, transaction);
+      let count;
+
+      try {
+        count = await this.model.destroy({...before.query, force: true, transaction});
+
+      } catch (err) {
+        throw translateError(err);
+      }
+
+      if (count === 0) {
+        this._notFound(id);
+
+      } else {
+        await this._audit('purge', previous, [], transaction);
+        await this._invalidateCache(transaction, id);
+      }
+
+      const after = await this._runHooks('afterDelete', {id, count, transaction});
+      return after.count;
+    });
+  }
+
+
+  /**
+   * Gets the audit trail of a resource, oldest first, throwing a `DbResourceError` if the collection isn't audited.
+   * Under an access policy, null is returned unless the resource may be read, even if it has been soft-deleted, and
+   * changes to attributes which may not be seen are left out.
+   * @param id the ID of the resource
+   * @param transaction the transaction to run in, optional
+   */
+  async history(id: any, transaction: Sequelize.Transaction = this.boundTransaction): Promise<AuditEntry[]> {
+    const audit = this.config.audit;
+
+    if (!audit)
+      throw new DbResourceError('collection is not audited');
+
+    const policyWhere = this._getPolicyWhere('read');
+
+    if (policyWhere && !await this.model.findOne(<any>{where: andWhere(this._getKeyWhere(id), policyWhere), paranoid: false, transaction}))
+      return this._notFound(id);
+
+    const entries = await audit.model.findAll(<any>{
+      where: {collection: this._auditCollection, entityId: this._formatId(id)},
+      order: [['timestamp', 'ASC'], [(<any>audit.model).primaryKeyAttribute, 'ASC']],
+      transaction
+    });
+
+    return entries.map((instance): AuditEntry => {
+      const entry = <AuditEntry>instance.get({plain: true});
+      return {...entry, changes: _.pickBy(entry.changes, (change, k: string) => this._isVisibleAttribute(k))};
+    });
+  }
+
+
+  /**
+   * Runs the hooks with the given name in order, each seeing the changes made by the last.
+   * @returns the event after all the hooks have run
+   */
+  private async _runHooks(name: HookName, event: Partial<HookEvent>): Promise<HookEvent> {
+    const hookEvent = <HookEvent>{...event, context: this.boundContext};
+
+    for (let hook of this.hooks[name] || []) {
+      const resource = await hook(hookEvent);
+
+      if (resource)
+        hookEvent.resource = resource;
+    }
+
+    return hookEvent;
+  }
+
+
+  private _clone(changes: {[key: string]: any}): DbResourceCollection<TEntity> {
+    return Object.assign(Object.create(DbResourceCollection.prototype), this, changes);
+  }
+
+
+  /**
+   * Gets the prefix of every cache key for the collection.
+   */
+  private get _cachePrefix(): string {
+    return `${(<any>this.model).name}:`;
+  }
+
+
+  /**
+   * Gets the key to cache a read under, or null if it shouldn't be cached.  Reads in a transaction aren't cached,
+   * since they may see uncommitted changes, and nor are reads with hooks, which may change the query or the result
+   * for the request context, or refuse it.  The key covers everything else bound to the collection that changes
+   * the result, including what the access policy allows in the current context.
+   * @param hooks the hooks run by the read
+   * @param kind the kind of read, which starts the key after the prefix
+   * @param args the arguments of the read
+   */
+  private _getCacheKey(transaction: Sequelize.Transaction, hooks: HookName[], kind: string, ...args: any[]): string {
+    if (!this.config.cache || transaction || hooks.some((name) => !_.isEmpty(this.hooks[name])))
+      return null;
+
+    const policy = this.config.policy || {};
+    const scope = [
+      args,
+      policy.filter ? policy.filter(this.boundContext, 'read') : null,
+      policy.fields ? policy.fields(this.boundContext) : null,
+      this.boundDeleted,
+      this.boundSearch,
+      this.boundCount,
+      this.boundJoins.map((join) => [join.as, join.where])
+    ];
+
+    const hash = crypto.createHash('sha1').update(JSON.stringify(scope)).digest('hex');
+    return `${this._cachePrefix}${kind}:${hash}`;
+  }
+
+
+  /**
+   * Gets a cached value, counting whether it was found.
+   * @param key the key from `_getCacheKey`, or null to skip the cache
+   */
+  private async _cacheGet(key: string): Promise<any> {
+    if (key == null)
+      return undefined;
+
+    const value = await this.config.cache.get(key);
+
+    if (value == null)
+      this.cacheStats.misses++;
+    else
+      this.cacheStats.hits++;
+
+    return value;
+  }
+
+
+  /**
+   * Caches a value, unless it is null.
+   * @param key the key from `_getCacheKey`, or null to skip the cache
+   */
+  private async _cacheSet(key: string, value: any) {
+    if (key != null && value != null)
+      await this.config.cache.set(key, value);
+  }
+
+
+  /**
+   * Removes the cached lists and, given an ID, the cached resource with that ID, or with no ID, everything
+   * cached for the collection.  In a transaction, they are removed again once it commits, in case they
+   * were read back in the meantime.
+   * @param id the ID of the resource written, optional
+   */
+  private async _invalidateCache(transaction: Sequelize.Transaction, id?: any) {
+    const cache = this.config.cache;
+
+    if (!cache)
+      return;
+
+    // resources looked up by their alternate key are cached under it, so are all removed
+    const prefixes = id == null
+      ? [this._cachePrefix]
+      : [`${this._cachePrefix}list:`, this.config.alternateKey ? `${this._cachePrefix}get:` : `${this._cachePrefix}get:${this._formatId(id)}:`];
+
+    const invalidate = () => Promise.all(prefixes.map((prefix) => cache.invalidate(prefix)));
+    await invalidate();
+
+    if (transaction) {
+      // savepoints run their commit hooks straight away, so wait for the outermost transaction
+      let root = <any>transaction;
+
+      while (root.parent)
+        root = root.parent;
+
+      root.afterCommit(() => invalidate());
+    }
+  }
+
+
+  /**
+   * Gets the name of the collection in audit entries.
+   */
+  private get _auditCollection(): string {
+    return this.config.audit.collection || (<any>this.model).name;
+  }
+
+
+  /**
+   * Reads the rows a write is about to change, locking them, if the collection is audited.
+   */
+  private async _readForAudit(query: Sequelize.FindOptions<TEntity>, transaction: Sequelize.Transaction): Promise<Sequelize.Instance<TEntity>[]> {
+    if (!this.config.audit)
+      return [];
+
+    return await this.model.findAll({...query, lock: 'UPDATE', transaction});
+  }
+
+
+  /**
+   * Writes an audit entry for each row changed by a write, in its transaction.  Hidden attributes are left out.
+   * @param before the rows before the write, as read by `_readForAudit`
+   * @param after the rows after the write
+   */
+  private async _audit(operation: AuditOperation, before: Sequelize.Instance<TEntity>[], after: Sequelize.Instance<TEntity>[], transaction: Sequelize.Transaction) {
+    if (!this.config.audit)
+      return;
+
+    const attributes = _.difference(_.keys((<any>this.model).rawAttributes), this.config.hidden || []);
+    const getId = (row: Sequelize.Instance<TEntity>) => this._formatId(this._getId(row));
+    const previous = _.keyBy(before, getId);
+    const current = _.keyBy(after, getId);
+
+    await this._writeAudit(operation, _.union(_.keys(previous), _.keys(current)).map((entityId): [string, _.Dictionary<AuditChange>] => [
+      entityId,
+      diffAttributes(
+        previous[entityId] ? _.pick(previous[entityId].get(), attributes) : {},
+        current[entityId] ? _.pick(current[entityId].get(), attributes) : {}
+      )
+    ]), transaction);
+  }
+
+
+  /**
+   * Reads the IDs of the resources linked to an instance through a to-many relationship, in order, if the
+   * collection is audited.
+   */
+  private async _readRelatedForAudit(instance: Sequelize.Instance<TEntity>, association, transaction: Sequelize.Transaction): Promise<any[]> {
+    if (!this.config.audit)
+      return [];
+
+    const targetKey = association.target.primaryKeyAttribute;
+    const related: Sequelize.Instance<any>[] = await association.get(instance, {attributes: [targetKey], joinTableAttributes: [], transaction});
+    return _.sortBy(related.map((row) => row.get(targetKey)));
+  }
+
+
+  /**
+   * Writes an audit entry for each resource changed by a write, given as its ID and the changes made to it.
+   */
+  private async _writeAudit(operation: AuditOperation, changes: [string, _.Dictionary<AuditChange>][], transaction: Sequelize.Transaction) {
+    const audit = this.config.audit;
+
+    if (!audit)
+      return;
+
+    const actor = audit.actor ? audit.actor(this.boundContext) : this.boundContext.actor;
+    const timestamp = new Date();
+
+    const entries = changes.map(([entityId, changes]) => ({
+      collection: this._auditCollection,
+      entityId,
+      actor: actor == null ? null : String(actor),
+      operation,
+      timestamp,
+      changes
+    }));
+
+    try {
+      await audit.model.bulkCreate(entries, {transaction});
+
+    } catch (err) {
+      throw translateError(err);
+    }
+  }
+
+
+  /**
+   * Gets the attribute holding the version of each resource, if any.
+   */
+  private get _versionAttribute(): string {
+    if (this.config.version !== undefined)
+      return this.config.version || null;
+
+    return (<any>this.model)._versionAttribute || (<any>this.model)._timestampAttributes.updatedAt || null;
+  }
+
+
+  private _getVersionedWhere(where, version) {
+    if (version != null && this._versionAttribute) {
+      return {...where, [this._versionAttribute]: version};
+    } else {
+      return where;
+    }
+  }
+
+
+  /**
+   * Adds an increment of the version attribute to the attributes to update, unless it's a timestamp
+   * which Sequelize will update itself.
+   */
+  private _incrementVersion(attributes) {
+    const versionAttribute = this._versionAttribute;
+
+    if (!versionAttribute || versionAttribute === (<any>this.model)._timestampAttributes.updatedAt)
+      return attributes;
+
+    const field = (<any>this.model).rawAttributes[versionAttribute].field || versionAttribute;
+    const column = this._sequelize.getQueryInterface().quoteIdentifier(field, true);
+    return {...attributes, [versionAttribute]: Sequelize.literal(`${column} + 1`)};
+  }
+
+
+  /**
+   * Throws a `NotFoundError` for a missing resource if the `notFound` option is `throw`, or else returns null.
+   */
+  private _notFound(id: any): null {
+    if (this.config.notFound === 'throw')
+      throw new NotFoundError(`resource ${this._formatId(id)} not found`);
+
+    return null;
+  }
+
+
+  /**
+   * Throws a `PreconditionFailedError` if an expected version was given and the resource exists, for when
+   * a write affected no rows.
+   */
+  private async _checkVersionConflict(where, version, transaction: Sequelize.Transaction) {
+    if (version != null && this._versionAttribute) {
+      const count = await this.model.count({where, transaction});
+
+      if (count > 0)
+        throw new PreconditionFailedError();
+    }
+  }
+
+
+  private _selectAttributes(options: Corrieneuch.QueryOptions, includeTree: IncludeTree): string[] {
+    const attributes = this._selectFields(options.fieldsFor('$self'), includeTree);
+
+    if (attributes && this._versionAttribute && attributes.indexOf(this._versionAttribute) === -1)
+      attributes.push(this._versionAttribute);
+
+    return attributes;
+  }
+
+
+  /**
+   * Gets the attributes selected for the collection's own use, such as the version for `meta.version`, which
+   * weren't asked for in a sparse fieldset and so aren't presented.
+   */
+  private _getUnrequestedAttributes(options: Corrieneuch.QueryOptions): string[] {
+    const fields = options.fieldsFor('$self');
+    const version = this._versionAttribute;
+
+    if (!fields || !version || fields.some((field) => this._toAttributeName(field) === version))
+      return [];
+
+    return [version];
+  }
+
+
+  /**
+   * Converts an instance to a resource, with its version in `meta.version`.
+   */
+  private _toResource(url: string, instance: Sequelize.Instance<TEntity>, omit: string[] = [], fields: string[] = null): Corrieneuch.Resource {
+    const version = this._versionAttribute && instance.get(this._versionAttribute);
+    const meta = version == null ? undefined : {version: version instanceof Date ? version.toISOString() : version};
+    return new Corrieneuch.Resource(url, this._presentAttributes(_.omit(instance.get(), omit), fields), meta);
+  }
+
+
+  /**
+   * Gets the attributes identifying each resource.
+   */
+  private get _primaryKey(): string[] {
+    return this.config.primaryKey || (<any>this.model).primaryKeyAttributes;
+  }
+
+
+  /**
+   * Gets the values of the key attributes from an ID, which for a composite key may be a string as in URLs,
+   * an array of values in order, or an object keyed by attribute.
+   */
+  private _getKeyValues(id: any): any[] {
+    const key = this._primaryKey;
+    let values: any[];
+
+    if (key.length === 1)
+      return [id];
+
+    if (_.isPlainObject(id)) {
+      values = key.map((attribute) => id[attribute]);
+
+    } else if (Array.isArray(id)) {
+      values = id;
+
+    } else {
+      try {
+        values = String(id).split(',').map(decodeURIComponent);
+      } catch (err) {
+        values = [];
+      }
+    }
+
+    if (values.length !== key.length || values.some((value) => value == null))
+      throw new InvalidQueryError(`invalid ID ${id}`);
+
+    return values;
+  }
+
+
+  /**
+   * Gets a where clause matching the resource with the given ID.
+   */
+  private _getKeyWhere(id: any): any {
+    return _.zipObject(this._primaryKey, this._getKeyValues(id));
+  }
+
+
+  /**
+   * Gets a where clause matching any of the given instances.
+   */
+  private _getKeysWhere(instances: Sequelize.Instance<TEntity>[]): any {
+    const key = this._primaryKey;
+
+    if (key.length === 1 || !instances.length)
+      return {[key[0]]: {$in: instances.map((instance) => instance.get(key[0]))}};
+
+    return {$or: instances.map((instance) => _.pick(instance.get(), key))};
+  }
+
+
+  /**
+   * Gets a where clause for `get`, matching the primary key or the `alternateKey` option.  The primary key is
+   * only matched if the ID could be one, since Postgres rejects comparing e.g. an integer column with a slug.
+   */
+  private _getLookupWhere(id: any): any {
+    const alternateKey = this.config.alternateKey;
+
+    if (!alternateKey || _.isObject(id))
+      return this._getKeyWhere(id);
+
+    let values: any[];
+
+    try {
+      values = this._getKeyValues(id);
+    } catch (err) {
+      return {[alternateKey]: id};
+    }
+
+    const rawAttributes = (<any>this.model).rawAttributes;
+    const valid = this._primaryKey.every((attribute, i) => isKeyValue(rawAttributes[attribute], values[i]));
+    return valid ? {$or: [_.zipObject(this._primaryKey, values), {[alternateKey]: id}]} : {[alternateKey]: id};
+  }
+
+
+  /**
+   * Picks the instance whose key is the given ID over one whose alternate key is, when a lookup found both.
+   */
+  private _preferKey(instances: Sequelize.Instance<TEntity>[], id: any): Sequelize.Instance<TEntity> {
+    let values: string[];
+
+    try {
+      values = this._getKeyValues(id).map(String);
+    } catch (err) {
+      return instances[0] || null;
+    }
+
+    const byKey = instances.find((instance) => _.isEqual(this._primaryKey.map((attribute) => String(instance.get(attribute))), values));
+    return byKey || instances[0] || null;
+  }
+
+
+  /**
+   * Gets the ID of an instance, as passed to hooks: the value of the key, or for a composite key, the string
+   * used in URLs.
+   */
+  private _getId(instance: Sequelize.Instance<TEntity>): any {
+    const key = this._primaryKey;
+    return key.length === 1 ? instance.get(key[0]) : encodeKey(key.map((attribute) => instance.get(attribute)));
+  }
+
+
+  /**
+   * Formats an ID given to a method as in URLs.
+   */
+  private _formatId(id: any): string {
+    return _.isObject(id) ? encodeKey(this._getKeyValues(id)) : String(id);
+  }
+
+
+  /**
+   * Gets the URL of the resource for an instance, within the collection at the given URL.
+   */
+  private _getResourceUrl(url: string, instance: Sequelize.Instance<TEntity>): string {
+    return url + '/' + encodeKey(this._primaryKey.map((attribute) => instance.get(attribute)));
+  }
+
+
+  /**
+   * Converts the attributes of a row to the attributes of a resource, renaming them, leaving out hidden
+   * attributes and adding computed ones.  Anything which isn't a model attribute, such as an included
+   * relationship, is left as it is.
+   * @param fields the sparse fieldset asked for, outside which computed attributes aren't added, or null for all
+   */
+  private _presentAttributes(row: any, fields: string[] = null): any {
+    const rawAttributes = (<any>this.model).rawAttributes;
+    const rename = this.config.rename || {};
+    const visible = this._getVisibleFields();
+    const isVisible = (name: string) => !visible || _.includes(visible, name);
+    let result = {};
+
+    for (let k of Object.keys(row)) {
+      if (!(k in rawAttributes))
+        result[k] = row[k];
+      else if (!_.includes(this.config.hidden, k) && isVisible(rename[k] || k))
+        result[rename[k] || k] = row[k];
+    }
+
+    _.forEach(this.config.computed, (computed, name: string) => {
+      if (isVisible(name) && (!fields || _.includes(fields, name)) && (computed.attributes || []).every((attribute) => attribute in row))
+        result[name] = computed.get(row);
+    });
+
+    return result;
+  }
+
+
+  /**
+   * Gets the model attribute for a field name used in the API, or null if there is no such field, e.g.
+   * because it is hidden or computed.
+   */
+  private _toAttributeName(field: string): string {
+    const rename = this.config.rename || {};
+    const attribute = _.findKey(rename, (name) => name === field) || field;
+
+    if (!(attribute in (<any>this.model).rawAttributes) || (attribute === field && rename[field]) || _.includes(this.config.hidden, attribute))
+      return null;
+
+    return attribute;
+  }
+
+
+  /**
+   * Gets the model attribute for a field name used in a query, throwing an `InvalidQueryError` if there is none
+   * or the policy doesn't allow it to be seen.
+   */
+  private _toKnownAttributeName(field: string): string {
+    const attribute = this._toAttributeName(field);
+    const visible = this._getVisibleFields();
+
+    if (!attribute || (visible && !_.includes(visible, field)))
+      throw new InvalidQueryError(`unknown field ${field}`);
+
+    return attribute;
+  }
+
+
+  /**
+   * Gets the names of the fields which may be seen in the current context under the collection's policy,
+   * as in the API, or null if they all may.
+   */
+  private _getVisibleFields(): string[] {
+    const policy = this.config.policy;
+    return policy && policy.fields ? policy.fields(this.boundContext) : null;
+  }
+
+
+  /**
+   * Whether a model attribute may be seen in the current context, not being hidden or left out by the
+   * collection's policy.  Anything else, such as the name of a relationship, may be seen.
+   */
+  private _isVisibleAttribute(attribute: string): boolean {
+    if (!(attribute in (<any>this.model).rawAttributes))
+      return true;
+
+    const rename = this.config.rename || {};
+    const visible = this._getVisibleFields();
+    return !_.includes(this.config.hidden, attribute) && (!visible || _.includes(visible, rename[attribute] || attribute));
+  }
+
+
+  /**
+   * Gets the attributes to select given the fields requested through the API, or null to select them all.
+   * The primary key, the attributes which requested computed attributes depend on, and any attributes
+   * needed to build the links of the resource and of its includes are always selected.
+   */
+  private _selectFields(fields: string[], tree: IncludeTree, link?: string): string[] {
+    if (!fields)
+      return null;
+
+    const computed = this.config.computed || {};
+    const links = [...templateFields(link), ..._.flatMap(tree, ({relationship}) => templateFields(relationship.link))];
+
+    const attributes = [
+      ..._.flatMap(fields, (field) => computed[field] ? computed[field].attributes || [] : [this._toAttributeName(field)]),
+      ...(<any>this.model).primaryKeyAttributes,
+      ...this._primaryKey,
+      ...links.map((field) => this._toAttributeName(field))
+    ];
+
+    return _.uniq(attributes.filter((attribute) => attribute && attribute in (<any>this.model).rawAttributes));
+  }
+
+
+  /**
+   * Gets the collection on the other side of a relationship, or a plain collection of its model if none was given,
+   * with the same request context.
+   */
+  private _collectionFor(relationship: EntityRelationship): DbResourceCollection<any> {
+    const collection = relationship.collection || new DbResourceCollection(toIncludeOptions(relationship.relationship).model);
+    return collection._clone({boundContext: this.boundContext});
+  }
+
+
+  /**
+   * Gets the Postgres planner's estimate of the number of rows in the model's table, kept up to date by
+   * `ANALYZE` and autovacuum, so it only estimates an unfiltered list.  Other dialects keep no such statistics.
+   */
+  private async _estimateCount(transaction: Sequelize.Transaction): Promise<number> {
+    const dialect = this._sequelize.getDialect();
+
+    if (dialect !== 'postgres')
+      throw new DbResourceError(`count estimates are not supported by ${dialect}`);
+
+    const table: any = this.model.getTableName();
+    const name = _.compact([table.schema, table.tableName || table]).map((part: string) => `"${part.replace(/"/g, '""')}"`).join('.');
+
+    const [result] = await this._sequelize.query('SELECT reltuples FROM pg_class WHERE oid = to_regclass(:name)', {
+      replacements: {name},
+      type: this._sequelize.QueryTypes.SELECT,
+      transaction
+    });
+
+    // tables which have never been analysed have no estimate
+    return result ? Math.max(Math.round(result.reltuples), 0) : 0;
+  }
+
+
+  private get _deletedAtAttribute(): string {
+    return (<any>this.model)._timestampAttributes.deletedAt || null;
+  }
+
+
+  /**
+   * Changes a find query to see soft-deleted rows, according to `withDeleted`.
+   */
+  private _scopeDeleted(query: Sequelize.FindOptions<TEntity>): Sequelize.FindOptions<TEntity> {
+    const deletedAt = this._deletedAtAttribute;
+
+    if (!this.boundDeleted || !deletedAt)
+      return query;
+
+    query.paranoid = false;
+
+    if (this.boundDeleted === 'only') {
+      const onlyDeleted = {[deletedAt]: {$ne: null}};
+      query.where = andWhere(query.where, onlyDeleted);
+    }
+
+    return query;
+  }
+
+
+  private get _sequelize(): Sequelize.Sequelize {
+    return (<any>this.model).sequelize;
+  }
+
+
+  /**
+   * Gets the attributes from a payload which may be written by the given operation, keyed by model attribute,
+   * either stripping the others or throwing a `ValidationError`, depending on the `unwritable` option.
+   * @param attributes the attributes of the payload, named as in the API
+   * @param keys the foreign keys set by the relationships of the payload, named as in the model
+   */
+  private _getWritableAttributes(attributes, operation: 'create' | 'update', keys: _.Dictionary<any> = {}): any {
+    const writable = operation === 'create' ? this.config.creatable : this.config.updatable;
+    const rawAttributes = (<any>this.model).rawAttributes;
+    let result = {};
+    let errors: _.Dictionary<string[]> = {};
+
+    const entries = [
+      ..._.map(attributes, (value, k: string) => [k, this._toAttributeName(k), value]),
+      ..._.map(keys, (value, k: string) => [k, k, value])
+    ];
+
+    for (let [k, attribute, value] of entries) {
+      if (this.config.computed && this.config.computed[k]) {
+        errors[k] = ['is read-only'];
+
+      } else if (!attribute || !(attribute in rawAttributes)) {
+        errors[k] = ['is not a known attribute'];
+
+      } else if (_.includes(this.config.readOnly, attribute)) {
+        errors[k] = ['is read-only'];
+
+      } else if (operation === 'update' && _.includes(this.config.immutable, attribute)) {
+        errors[k] = ['cannot be changed'];
+
+      } else if (writable && !_.includes(writable, attribute)) {
+        errors[k] = ['cannot be set'];
+
+      } else {
+        result[attribute] = value;
+      }
+    }
+
+    if (!_.isEmpty(errors) && this.config.unwritable === 'reject')
+      throw new ValidationError('payload contains attributes which cannot be written', errors);
+
+    return result;
+  }
+
+
+  /**
+   * Gets the default value, or null, of every attribute `update` could write, for `replace`.  Keys, timestamps,
+   * the version and hidden attributes are left alone.
+   */
+  private _getResetAttributes(): any {
+    const model = <any>this.model;
+    const dialect = this._sequelize.getDialect();
+    const kept = [...model.primaryKeyAttributes, ...this._primaryKey, ..._.values(model._timestampAttributes), this._versionAttribute];
+    const updatable = this.config.updatable;
+    let result = {};
+
+    _.forEach(model.rawAttributes, (definition, attribute: string) => {
+      if (!_.includes(kept, attribute)
+          && !_.includes(this.config.readOnly, attribute)
+          && !_.includes(this.config.immutable, attribute)
+          && !_.includes(this.config.hidden, attribute)
+          && (!updatable || _.includes(updatable, attribute)))
+        result[attribute] = definition.defaultValue === undefined ? null : (<any>Sequelize).Utils.toDefaultValue(definition.defaultValue, dialect);
+    });
+
+    return result;
+  }
+
+
+  /**
+   * Translates a Sequelize error as `translateError` does, naming the attributes involved as they are in the API.
+   */
+  private _translateError(err) {
+    const translated = translateError(err);
+    const rename = this.config.rename || {};
+
+    if (translated instanceof ValidationError)
+      translated.attributes = _.mapKeys(translated.attributes, (messages, k: string) => rename[k] || k);
+    else if (translated instanceof ConflictError)
+      translated.fields = translated.fields.map((k) => rename[k] || k);
+
+    return translated;
+  }
+
+
+  private _checkConstraints(attributes, constraints?: Corrieneuch.FilterSpec) {
+    if (constraints) {
+      const query = filtr(constraints);
+
+      if (!query.test(attributes, {type: 'single'}))
+        throw new ConstraintViolationError();
+    }
+  }
+
+
+  /**
+   * Runs `action` for each item in one transaction, each in its own savepoint so that a failed
+   * item can be reported without aborting the rest.
+   */
+  private async _bulk<T>(items: T[], mode: BulkMode, parent: Sequelize.Transaction, action: (item: T, transaction: Sequelize.Transaction) => Promise<BulkItemResult>): Promise<BulkResult> {
+    const rollback = new Error('bulk operation rolled back');
+    let results: BulkItemResult[] = [];
+
+    try {
+      await this._sequelize.transaction(<any>{transaction: parent}, async (transaction) => {
+        results = [];
+
+        for (let item of items) {
+          try {
+            results.push(await this._sequelize.transaction(<any>{transaction}, (savepoint) => action(item, savepoint)));
+          } catch (error) {
+            results.push({error});
+          }
+        }
+
+        if (mode === 'atomic' && results.some((result) => !!result.error))
+          throw rollback;
+      });
+
+      return {committed: true, items: results};
+
+    } catch (err) {
+      if (err !== rollback)
+        throw err;
+
+      return {committed: false, items: results};
+    }
+  }
+
+
+  private _getPageLinks(url: string, options: Corrieneuch.QueryOptions, pages: _.Dictionary<any>) {
+    return _.mapValues(pages,
+      (page) => url + options.clone({page}).toString()
+    );
+  }
+
+
+  private _getSortOptions(options: Corrieneuch.QueryOptions) {
+    let sort = options.sort();
+
+    if (sort) {
+      return _.map(sort, (direction, key: string) => {
+        const [name, attribute] = this._splitFieldPath(key);
+        const order = direction === 1 ? 'ASC' : 'DESC';
+
+        if (attribute && this._isToMany(name)) {
+          // sort on the first related value in the order, as there may be many
+          const collection = this._collectionFor(this.relationships[name]);
+          return [this._getRelatedAggregate(name, collection._toKnownAttributeName(attribute), direction === 1 ? 'min' : 'max'), order];
+
+        } else if (attribute) {
+          const collection = this._collectionFor(this.relationships[name]);
+          return [toIncludeOptions(this.relationships[name].relationship), collection._toKnownAttributeName(attribute), order];
+
+        } else {
+          return [this._toKnownAttributeName(key), order];
+        }
+      });
+
+    } else {
+      return null;
+    }
+  }
+
+
+  private _getCursorSort(options: Corrieneuch.QueryOptions): [string, string][] {
+    if (_.keys(options.sort()).some((key) => key.indexOf('.') !== -1))
+      throw new InvalidQueryError('cursor paging does not support sorting on relationships');
+
+    let sort = _.map(options.sort(),
+      (direction, key: string): [string, string] => [this._toKnownAttributeName(key), direction === 1 ? 'ASC' : 'DESC']
+    );
+
+    for (let key of this._primaryKey) {
+      if (!sort.some(([sorted]) => sorted === key))
+        sort.push([key, 'ASC']);
+    }
+
+    return sort;
+  }
+
+
+  /**
+   * Splits a field path such as `author.name` into the relationship name and attribute, or
+   * returns just the field name for fields of the collection's own model.
+   */
+  private _splitFieldPath(key: string): [string, string] {
+    const path = key.split('.');
+
+    if (path.length === 1) {
+      return [key, null];
+
+    } else if (path.length === 2 && this.relationships[path[0]]) {
+      return [path[0], path[1]];
+
+    } else {
+      throw new InvalidQueryError(`unknown field ${key}`);
+    }
+  }
+
+
+  /**
+   * Gets the resolver for field paths in a filter.  Fields of to-one relationships are referenced through
+   * their joins, while conditions on fields of to-many relationships are matched in a subquery, so that
+   * the rows aren't repeated for each related instance.
+   * @param api whether paths name fields as in the API, rather than as in the models
+   */
+  private _getFieldResolver(api: boolean): FieldResolver {
+    return {
+      key: (key) => {
+        const [name, attribute] = this._splitFieldPath(key);
+
+        if (attribute) {
+          const collection = this._collectionFor(this.relationships[name]);
+          const related = api ? collection._toKnownAttributeName(attribute) : attribute;
+          return this._isToMany(name) ? related : `$${includeAlias(this.relationships[name].relationship)}.${related}$`;
+        } else {
+          return api ? this._toKnownAttributeName(key) : key;
+        }
+      },
+
+      // to-many relationships are aliased in their subqueries as they would be joined
+      column: (key) => {
+        const [name, attribute] = this._splitFieldPath(key);
+
+        if (attribute) {
+          const collection = this._collectionFor(this.relationships[name]);
+          return collection._getColumn(api ? collection._toKnownAttributeName(attribute) : attribute, includeAlias(this.relationships[name].relationship));
+        } else {
+          return this._getColumn(api ? this._toKnownAttributeName(key) : key);
+        }
+      },
+
+      scope: (key, conditions) => {
+        const [name, attribute] = this._splitFieldPath(key);
+        return attribute && this._isToMany(name) ? [this._getRelatedWhere(name, conditions)] : conditions;
+      }
+    };
+  }
+
+
+  /**
+   * Translates a filter given through the API, and constraints given by the caller, into a `where` clause.
+   */
+  private _getWhere(filter: Corrieneuch.FilterSpec, constraints: Corrieneuch.FilterSpec, action: PolicyAction) {
+    const where = translateFilter(filter, constraints, this._getFieldResolver(true), this._getFieldResolver(false));
+
+    return andWhere(where, this._getPolicyWhere(action, (<any>this.model).name));
+  }
+
+
+  /**
+   * Gets the `where` clause restricting the rows which may be accessed under the collection's policy,
+   * or null if there is no restriction.
+   * @param alias the name of the model's table in the query, which columns are qualified with where there may
+   * be joins; they aren't qualified if it isn't given, as in an `UPDATE` or `DELETE` of the table alone
+   */
+  private _getPolicyWhere(action: PolicyAction, alias: string = null) {
+    const policy = this.config.policy;
+    const filter = policy && policy.filter && policy.filter(this.boundContext, action);
+    return filter ? translateFilter(filter, null, {key: _.identity, column: (key) => this._getColumn(key, alias)}) : null;
+  }
+
+
+  /**
+   * Throws a `ConstraintViolationError` if the collection's policy doesn't allow the attributes to be written.
+   */
+  private _checkPolicy(action: 'create' | 'update', attributes) {
+    const policy = this.config.policy;
+
+    if (policy && policy.validate && policy.validate(this.boundContext, action, attributes) === false)
+      throw new ConstraintViolationError('not allowed by access policy');
+  }
+
+
+  /**
+   * Gets a reference to the column of an attribute of the model, qualified by the model name, or the alias
+   * the model is joined under, so that it can be used alongside joins.
+   * @param alias the name to qualify the column with, or null to leave it unqualified
+   */
+  private _getColumn(attribute: string, alias: string = (<any>this.model).name) {
+    const definition = (<any>this.model).rawAttributes[attribute];
+
+    if (!definition)
+      throw new InvalidQueryError(`unknown field ${attribute}`);
+
+    return Sequelize.col(alias ? `${alias}.${definition.field || attribute}` : definition.field || attribute);
+  }
+
+
+  /**
+   * Runs `callback` in a transaction nested in the given one if `required`, or else directly in the given one.
+   */
+  private async _transaction<T>(transaction: Sequelize.Transaction, required: boolean, callback: (transaction: Sequelize.Transaction) => Promise<T>): Promise<T> {
+    if (!required)
+      return await callback(transaction);
+
+    try {
+      return await this._sequelize.transaction(<any>{transaction}, callback);
+
+    } catch (err) {
+      throw translateError(err);
+    }
+  }
+
+
+  /**
+   * Gets the Sequelize association behind the relationship with the given name, or null if there is none.
    */
-  constructor(private model: Sequelize.Model<Sequelize.Instance<TEntity>, TEntity>, private relationships: _.Dictionary<EntityRelationship> = {}) {
+  private _getAssociation(name: string): any {
+    if (!this.relationships[name])
+      return null;
+
+    const options = toIncludeOptions(this.relationships[name].relationship);
+
+    return _.find((<any>this.model).associations,
+      (association: any) => association.target === options.model && (!options.as || association.as === options.as)
+    ) || null;
   }
 
 
   /**
-   * Gets a list of resources.
-   * @param url the current URL of the request
-   * @param options the query options, parsed from the querystring
+   * Splits the `relationships` section of a payload into the foreign keys to set for to-one relationships,
+   * and the IDs to link for to-many relationships.  Each relationship is given as an ID (or null) or a list
+   * of IDs, or objects with an `id`.
    */
-  async list(url: string, options: Corrieneuch.QueryOptions, filter?: Corrieneuch.FilterSpec): Promise<Corrieneuch.Resource> {
-    let page = options.page('number');
-    let includeRelationships = _.values(this._getInclude(options, 'relationship'));
+  private _getRelationshipWrites(relationships: _.Dictionary<any> = {}): {keys: _.Dictionary<any>, links: [any, any[]][]} {
+    const errors: _.Dictionary<string[]> = {};
+    const keys: _.Dictionary<any> = {};
+    const links: [any, any[]][] = [];
 
-    let query: Sequelize.FindOptions<TEntity> = _.pickBy({
-      limit: page.size,
-      offset: (page.number - 1) * page.size,
-      where: translateFilter(options.filter(), filter),
-      attributes: options.fieldsFor('$self'),
-      order: this._getSortOptions(options),
-      include: includeRelationships
-    }, (v) => v != null);
+    for (const name of Object.keys(relationships)) {
+      const association = this._getAssociation(name);
+      const value = relationships[name];
 
-    if (query.attributes && (<string[]>query.attributes).indexOf('id') === -1)
-      (<string[]>query.attributes).push('id');
+      if (!association) {
+        errors[name] = ['is not a known relationship'];
 
-    let result = await this.model.findAndCountAll(query);
-    let pageCount = Math.ceil(result.count / page.size);
+      } else if (association.associationType === 'BelongsTo') {
+        if (Array.isArray(value))
+          errors[name] = ['must be a single ID'];
+        else
+          keys[association.foreignKey] = relatedId(value);
 
-    let elements = result.rows.map(
-      (user) => new Corrieneuch.Resource(url + '/<%=id%>', user.get())
-    );
-    
-    let meta: Corrieneuch.ResourceMeta = {
-      count: result.count,
-      page: {
-        number: page.number,
-        size: page.size,
-        count: pageCount
+      } else if (association.isMultiAssociation) {
+        if (!Array.isArray(value))
+          errors[name] = ['must be a list of IDs'];
+        else
+          links.push([association, value.map(relatedId)]);
+
+      } else {
+        errors[name] = ['cannot be written'];
       }
-    };
-    
-    let resource = new Corrieneuch.Resource(url, elements, meta);
-    resource.addLinks(this._getPageLinks(url, options, page.number, pageCount));
-    
-    if (includeRelationships.length) {
-      let includeLinks = this._getInclude(options, 'link');
-      resource.elements.forEach((resource) => this._convertFromInstance(resource, includeLinks));
-      resource.flatten();
     }
 
-    return resource;
+    if (!_.isEmpty(errors))
+      throw new ValidationError('payload contains relationships which cannot be written', errors);
+
+    return {keys, links};
   }
 
 
   /**
-   * Gets a single resource with the specified ID, or null if it does not exist.
-   * @param url the current URL
-   * @param id the ID of the resource sought
-   * @param options the query options, parsed from the querystring
+   * Replaces, adds to or removes from the resources linked to an instance through to-many associations.
    */
-  async get(url: string, id: any, options: Corrieneuch.QueryOptions, filter?: Corrieneuch.FilterSpec): Promise<Corrieneuch.Resource> {
-    let includeRelationships = _.values(this._getInclude(options, 'relationship'));
-    
-    let query: Sequelize.FindOptions<TEntity> = _.pickBy({
-      where: {id, ...filter},
-      attributes: options.fieldsFor('$self'),
-      include: includeRelationships
-    }, (v) => v != null);
+  private async _setRelated(instance: Sequelize.Instance<TEntity>, links: [any, any[]][], action: 'set' | 'add' | 'remove', transaction: Sequelize.Transaction) {
+    try {
+      for (const [association, ids] of links)
+        await association[action](instance, ids, {transaction});
 
-    if (query.attributes && (<string[]>query.attributes).indexOf('id') === -1)
-      (<string[]>query.attributes).push('id');
+    } catch (err) {
+      throw translateError(err);
+    }
+  }
 
-    let result = await this.model.findOne(query);
-    
-    if (!result) {
+
+  /**
+   * Gets the condition matching the text given to `withSearch` or in the `q` parameter, and the expression for its relevance if ranking
+   * was asked for, or null if there is nothing to search for.  Postgres uses full-text search, while other
+   * dialects look for the text in each field with a case insensitive `LIKE`.
+   */
+  private _getSearch(options: Corrieneuch.QueryOptions): {where: any, rank: any} {
+    const text = ((this.boundSearch == null ? searchText(options) : this.boundSearch) || '').trim();
+    const config: SearchOptions = Array.isArray(this.config.search) ? {fields: this.config.search} : this.config.search;
+
+    if (!text || !config || !config.fields.length)
       return null;
 
+    const rename = this.config.rename || {};
+    const visible = this._getVisibleFields();
+    const fields = config.fields.filter((field) => !visible || _.includes(visible, rename[field] || field));
+
+    // searching fields which can't be seen would reveal what they hold
+    if (!fields.length)
+      throw new InvalidQueryError('no searchable fields may be seen');
+
+    const columns = fields.map((field) => this._getColumn(field));
+
+    if (this._sequelize.getDialect() === 'postgres') {
+      const language = config.language || 'english';
+      const document = Sequelize.fn('to_tsvector', language, Sequelize.fn('concat_ws', ' ', ...columns));
+      const query = Sequelize.fn('plainto_tsquery', language, text);
+
+      return {
+        where: Sequelize.where(document, '@@', query),
+        rank: config.rank ? Sequelize.fn('ts_rank', document, query) : null
+      };
+
     } else {
-      let resource = new Corrieneuch.Resource(url + '/' + id, result.get());
-      
-      if (includeRelationships.length) {
-        let includeLinks = this._getInclude(options, 'link');
-        this._convertFromInstance(resource, includeLinks);
-        resource.flatten();
-      }
+      const pattern = '%' + text.toLowerCase().replace(/[\\%_]/g, '\\$&') + '%';
+      // MySQL is the only dialect with a default escape character for LIKE
+      const like = Sequelize.literal(`${this._sequelize.escape(pattern)} ESCAPE ${this._sequelize.escape('\\')}`);
 
-      return resource;
+      return {
+        where: {$or: columns.map((column) => Sequelize.where(Sequelize.fn('lower', column), {$like: like}))},
+        rank: null
+      };
     }
   }
 
 
   /**
-   * Creates a resource.
-   * @param url the current URL
-   * @param payload the request payload, must contain `attributes`
+   * Gets the name and expression of a field to group by in an aggregate query.
    */
-  async create(url: string, payload: any, constraints?): Promise<Corrieneuch.Resource> {
-    if (constraints) {
-      const query = filtr(constraints);
+  private _getAggregateGroup(group: AggregateGroup): [string, any] {
+    if (typeof group === 'string')
+      return [group, this._getColumn(this._toKnownAttributeName(group))];
 
-      if (!query.test(payload.attributes, {type: 'single'}))
-        throw new Error('constraint violation');
-    }
+    if (['year', 'quarter', 'month', 'week', 'day', 'hour'].indexOf(group.trunc) === -1)
+      throw new InvalidQueryError(`unsupported date truncation ${group.trunc}`);
 
-    const entity = await this.model.create({...payload.attributes});
-    return new Corrieneuch.Resource(url + '/<%=id>', entity.get());
+    return [group.as || group.field, Sequelize.fn('date_trunc', group.trunc, this._getColumn(this._toKnownAttributeName(group.field)))];
   }
 
 
   /**
-   * Updates a resource.
-   * @param url the current URL
-   * @param payload the request payload, must contain `attributes`
+   * Gets the expression for an aggregate function in an aggregate query.
    */
-  async update(url: string, id: any, payload: any, constraints?: Corrieneuch.FilterSpec): Promise<Corrieneuch.Resource> {
-    if (constraints) {
-      const query = filtr(constraints);
+  private _getAggregateFunction(fn: AggregateFunction, field?: string) {
+    if (['count', 'sum', 'avg', 'min', 'max'].indexOf(fn) === -1)
+      throw new InvalidQueryError(`unsupported aggregate function ${fn}`);
 
-      if (!query.test(payload.attributes, {type: 'single'}))
-        throw new Error('constraint violation');
-    }
+    if (!field && fn !== 'count')
+      throw new InvalidQueryError(`aggregate function ${fn} needs a field`);
 
-    let [nrows, results] = <any>await this.model.update(payload.attributes, {
-      where: {id, ...constraints},
-      returning: true
-    });
+    return Sequelize.fn(fn, field ? this._getColumn(this._toKnownAttributeName(field)) : Sequelize.col('*'));
+  }
 
-    if (typeof nrows === 'undefined') {
-      nrows = results;
-      // TODO: figure out what's wrong with the types here
-      results = [await this.model.findOne(<any>{where: {id}})];
+
+  /**
+   * Gets the to-one relationships which must be joined to filter or sort on their fields, or just to filter
+   * on them if no query options are given.  Those requested with the `include` option are joined already.
+   * To-many relationships are never joined, since that would repeat rows and throw out paging, so their
+   * fields are filtered on with `_getRelatedWhere` and sorted on with `_getRelatedAggregate` instead.
+   */
+  private _getJoins(options: Corrieneuch.QueryOptions, filter?: Corrieneuch.FilterSpec, include: IncludeTree = options ? this._getIncludeTree(options) : {}): Sequelize.IncludeOptions[] {
+    const paths = [
+      ...(options ? filterFields(options.filter()) : []),
+      ...filterFields(filter),
+      ...(options ? _.keys(options.sort()) : [])
+    ];
+
+    const names = paths
+      .map((key) => this._splitFieldPath(key))
+      .filter(([name, attribute]) => attribute && !include[name] && !this._isToMany(name))
+      .map(([name]) => name);
+
+    return _.uniq(names).map((name) => _.pickBy({
+      ...toIncludeOptions(this.relationships[name].relationship),
+      attributes: [],
+      where: this._collectionFor(this.relationships[name])._getPolicyWhere('read', includeAlias(this.relationships[name].relationship)),
+      required: false
+    }, (v) => v != null));
+  }
+
+
+  /**
+   * Gets a condition matching the rows with an instance of a to-many relationship which matches the given
+   * conditions, and may be read under the related collection's policy.
+   */
+  private _getRelatedWhere(name: string, conditions: any[]) {
+    const association = this._getAssociation(name);
+    const alias = includeAlias(this.relationships[name].relationship);
+    const where = this._getRelatedReadableWhere(name, conditions.length === 1 ? conditions[0] : {$and: conditions});
+
+    if (association.associationType === 'BelongsToMany') {
+      const targets = this._getSubquery(association.target, alias, [association.target.primaryKeyAttribute], where);
+      const links = this._getSubquery(association.through.model, association.through.model.name, [association.foreignKey], {[association.otherKey]: {$in: targets}});
+      return {[association.source.primaryKeyAttribute]: {$in: links}};
+
+    } else {
+      return {[association.sourceKey]: {$in: this._getSubquery(association.target, alias, [association.foreignKey], where)}};
     }
+  }
+
+
+  /**
+   * Gets a subquery for the given aggregate of an attribute over the instances of a to-many relationship
+   * of each row which may be read under the related collection's policy, to sort on.
+   */
+  private _getRelatedAggregate(name: string, attribute: string, fn: 'min' | 'max') {
+    const association = this._getAssociation(name);
+    const alias = includeAlias(this.relationships[name].relationship);
+    const field = association.target.rawAttributes[attribute].field || attribute;
+    const sourceKey = association.associationType === 'BelongsToMany' ? association.source.primaryKeyAttribute : association.sourceKey;
+    const source = {$col: `${(<any>this.model).name}.${(<any>this.model).rawAttributes[sourceKey].field || sourceKey}`};
+    let where;
+
+    if (association.associationType === 'BelongsToMany') {
+      const links = this._getSubquery(association.through.model, association.through.model.name, [association.otherKey], {[association.foreignKey]: source});
+      where = {[association.target.primaryKeyAttribute]: {$in: links}};
 
-    if (nrows === 0) {
-      return null;
     } else {
-      return new Corrieneuch.Resource(url, results[0].get());
+      where = {[association.foreignKey]: source};
     }
+
+    return this._getSubquery(association.target, alias, [[Sequelize.fn(fn, Sequelize.col(`${alias}.${field}`)), attribute]], this._getRelatedReadableWhere(name, where));
   }
 
 
   /**
-   * Deletes a resource.
-   * @param id the ID of the resource to delete
+   * Adds the restrictions on which instances of a relationship may be read to a `where` clause for
+   * its model.
+   */
+  private _getRelatedReadableWhere(name: string, where) {
+    const collection = this._collectionFor(this.relationships[name]);
+    const deletedAt = collection._deletedAtAttribute;
+
+    return andWhere(andWhere(where, collection._getPolicyWhere('read', includeAlias(this.relationships[name].relationship))), deletedAt && {[deletedAt]: null});
+  }
+
+
+  /**
+   * Gets a subquery selecting from the table of a model, given the alias of the table within it,
+   * to use as a value in a `where` clause.
    */
-  async delete(id: any, filter?: Corrieneuch.FilterSpec): Promise<number> {
-    return await this.model.destroy({where: {id, ...filter}});
+  private _getSubquery(model, alias: string, attributes: any[], where) {
+    const options = (<any>Sequelize).Utils.mapOptionFieldNames({attributes, where, tableAs: alias}, model);
+    const sql: string = this._sequelize.getQueryInterface().QueryGenerator.selectQuery(model.getTableName(), options, model);
+
+    return Sequelize.literal(`(${sql.replace(/;$/, '')})`);
   }
 
-  private _getPageLinks(url: string, options: Corrieneuch.QueryOptions, pageNumber: number, pageCount: number) {
-    let links: any = {
-      $first: url + options.clone({page: {number: 1}}).toString(),
-      $last: url + options.clone({page: {number: pageCount}}).toString()
-    };
 
-    if (pageNumber > 1)
-      links.$previous = url + options.clone({page: {number: pageNumber - 1}}).toString();
+  /**
+   * Gets the relationships requested with the `include` option, following dotted paths through the
+   * `collection` of each relationship.  Unknown relationships are ignored.
+   */
+  private _getIncludeTree(options: Corrieneuch.QueryOptions): IncludeTree {
+    let tree: IncludeTree = {};
+
+    for (let path of options.include() || []) {
+      let level = tree;
+      let relationships = this.relationships;
+
+      for (let name of path.split('.')) {
+        const relationship = relationships && relationships[name];
+
+        if (!relationship)
+          break;
 
-    if (pageNumber < pageCount)
-      links.$next = url + options.clone({page: {number: pageNumber + 1}}).toString();
+        level[name] = level[name] || {relationship, include: {}, fields: options.fieldsFor(name)};
+        level = level[name].include;
+        relationships = relationship.collection && relationship.collection.relationships;
+      }
+    }
 
-    return links;
+    return tree;
   }
 
 
-  private _getSortOptions(options: Corrieneuch.QueryOptions) {
-    let sort = options.sort();
+  /**
+   * Gets the Sequelize options to join the to-one relationships in the include tree; to-many relationships
+   * are loaded separately by `_loadIncludes`.
+   * @param parent the alias of the join the tree is included below, if it isn't the collection's own model
+   */
+  private _getIncludeOptions(tree: IncludeTree, options: Corrieneuch.QueryOptions, parent?: string): SequelizeInclude[] {
+    const toOne: IncludeTree = _.omitBy(tree, (node, name: string) => this._isToMany(name));
 
-    if (sort) {
-      return _.map(sort,
-        (direction, key) => [key, direction === 1 ? 'ASC' : 'DESC']
-      );
+    return _.map(toOne, ({relationship, include}, name: string) => {
+      const fields = options.fieldsFor(name);
+      const collection = this._collectionFor(relationship);
+      // Sequelize aliases nested joins by their path
+      const alias = parent ? `${parent}->${includeAlias(relationship.relationship)}` : includeAlias(relationship.relationship);
+      const where = collection._getPolicyWhere('read', alias);
 
-    } else {
-      return null;
+      if (_.isEmpty(include) && !fields && !where) {
+        return relationship.relationship;
+
+      } else {
+        const includeOptions = toIncludeOptions(relationship.relationship);
+
+        return _.pickBy({
+          ...includeOptions,
+          attributes: collection._selectFields(fields, include, relationship.link),
+          include: _.isEmpty(include) ? null : collection._getIncludeOptions(include, options, alias),
+          where,
+          required: where ? false : null
+        }, (v) => v != null);
+      }
+    });
+  }
+
+
+  private _isToMany(name: string): boolean {
+    const association = this._getAssociation(name);
+    return !!association && association.isMultiAssociation;
+  }
+
+
+  /**
+   * Loads the to-many relationships in the include tree for the given instances of the collection's model,
+   * with one query for each relationship rather than a join, so that paging and counts only apply to the
+   * instances themselves.  The related instances are set on each instance as a join would have set them,
+   * and the relationships included below them are loaded in turn.
+   */
+  private async _loadIncludes(instances: Sequelize.Instance<any>[], tree: IncludeTree, options: Corrieneuch.QueryOptions, transaction: Sequelize.Transaction) {
+    for (let name in tree) {
+      const {relationship, include} = tree[name];
+      const collection = this._collectionFor(relationship);
+      let related: Sequelize.Instance<any>[];
+
+      if (this._isToMany(name)) {
+        const association = this._getAssociation(name);
+
+        const query = _.pickBy({
+          attributes: collection._selectFields(options.fieldsFor(name), include, relationship.link),
+          include: collection._getIncludeOptions(include, options),
+          where: collection._getPolicyWhere('read', association.target.name),
+          transaction
+        }, (v) => v != null);
+
+        related = association.associationType === 'BelongsToMany'
+          ? await this._loadThrough(instances, name, association, query)
+          : await this._loadHasMany(instances, name, association, query);
+
+      } else {
+        related = _.compact(instances.map((instance) => instance.get(name)));
+      }
+
+      if (related.length && !_.isEmpty(include))
+        await collection._loadIncludes(related, include, options, transaction);
     }
   }
 
 
-  private _getInclude(options: Corrieneuch.QueryOptions, field: 'relationship'): _.Dictionary<SequelizeInclude>;
-  private _getInclude(options: Corrieneuch.QueryOptions, field: 'link'): _.Dictionary<string>;
-  private _getInclude(options: Corrieneuch.QueryOptions, field: string) {
-    let include = options.include();
+  /**
+   * Loads the targets of a `hasMany` association for the given instances with one query.
+   */
+  private async _loadHasMany(instances: Sequelize.Instance<any>[], name: string, association, query: Sequelize.FindOptions<any>): Promise<Sequelize.Instance<any>[]> {
+    const keys = _.uniq(instances.map((instance) => instance.get(association.sourceKey)).filter((key) => key != null));
+    const targetKey = association.target.primaryKeyAttribute;
+
+    const related: Sequelize.Instance<any>[] = keys.length ? await association.target.findAll({
+      ...query,
+      attributes: query.attributes && _.uniq([...(<string[]>query.attributes), association.foreignKey]),
+      where: andWhere({[association.foreignKey]: {$in: keys}}, query.where),
+      order: [[targetKey, 'ASC']]
+    }) : [];
+
+    const byKey = _.groupBy(related, (instance) => instance.get(association.foreignKey));
 
-    if (include) {
-      let relationships = <_.Dictionary<EntityRelationship>>_.pick(this.relationships, include);
-      return _.mapValues(relationships, (v) => v[field]);
+    for (let instance of instances)
+      instance.setDataValue(name, byKey[instance.get(association.sourceKey)] || []);
 
-    } else {
-      return null;
+    return related;
+  }
+
+
+  /**
+   * Loads the targets of a `belongsToMany` association for the given instances with one query for the
+   * links in the through model, and one for the targets.
+   */
+  private async _loadThrough(instances: Sequelize.Instance<any>[], name: string, association, query: Sequelize.FindOptions<any>): Promise<Sequelize.Instance<any>[]> {
+    const sourceKey = association.source.primaryKeyAttribute;
+    const targetKey = association.target.primaryKeyAttribute;
+    const keys = _.uniq(instances.map((instance) => instance.get(sourceKey)).filter((key) => key != null));
+
+    const links: Sequelize.Instance<any>[] = keys.length ? await association.through.model.findAll({
+      attributes: [association.foreignKey, association.otherKey],
+      where: {[association.foreignKey]: {$in: keys}},
+      transaction: query.transaction
+    }) : [];
+
+    const targetIds = _.uniq(links.map((link) => link.get(association.otherKey)));
+
+    const related: Sequelize.Instance<any>[] = targetIds.length ? await association.target.findAll({
+      ...query,
+      attributes: query.attributes && _.uniq([...(<string[]>query.attributes), targetKey]),
+      where: andWhere({[targetKey]: {$in: targetIds}}, query.where),
+      order: [[targetKey, 'ASC']]
+    }) : [];
+
+    const byId = _.keyBy(related, (instance) => instance.get(targetKey));
+    const linksByKey = _.groupBy(links, (link) => link.get(association.foreignKey));
+
+    for (let instance of instances) {
+      const targets = (linksByKey[instance.get(sourceKey)] || []).map((link) => byId[link.get(association.otherKey)]);
+      instance.setDataValue(name, _.compact(targets));
+    }
+
+    return related;
+  }
+
+
+  /**
+   * Moves included resources out of the attributes of `targets` and into the `includes` of `resource`.
+   */
+  private _convertIncludes(resource: Corrieneuch.Resource, targets: Corrieneuch.Resource[], tree: IncludeTree) {
+    let nested: Corrieneuch.Resource[] = [];
+    let nestedLinks: _.Dictionary<_.Dictionary<string | string[]>> = {};
+
+    targets.forEach((target) => this._convertFromInstance(target, tree, nested, nestedLinks));
+    resource.flatten();
+
+    resource.includes = _.uniqBy(
+      [...(resource.includes || []), ...nested],
+      (include) => include.links.$self
+    );
+
+    for (let include of resource.includes) {
+      if (nestedLinks[include.links.$self])
+        include.addLinks(nestedLinks[include.links.$self]);
     }
   }
 
 
-  private _convertFromInstance(resource: Corrieneuch.Resource, includeLinks: _.Dictionary<string>) {
-    for (let k in includeLinks) {
+  private _convertFromInstance(resource: Corrieneuch.Resource, tree: IncludeTree, nested: Corrieneuch.Resource[], nestedLinks: _.Dictionary<_.Dictionary<string | string[]>>) {
+    for (let k in tree) {
       const value = resource.attributes[k];
+      const link = tree[k].relationship.link;
+      const template = _.template(link);
+      const collection = this._collectionFor(tree[k].relationship);
 
       if (value == null) {
         continue;
 
       } else if (Array.isArray(value)) {
-        resource.attributes[k] = value.map((v) => v.get());
+        resource.attributes[k] = value.map((v) => {
+          const attributes = collection._presentIncluded(v, tree[k].include, tree[k].fields);
+          collection._convertNested(v, template(attributes), tree[k].include, nested, nestedLinks);
+          return attributes;
+        });
 
       } else {
-        resource.attributes[k] = value.get();
+        const attributes = collection._presentIncluded(value, tree[k].include, tree[k].fields);
+        collection._convertNested(value, template(resource.attributes), tree[k].include, nested, nestedLinks);
+        resource.attributes[k] = attributes;
       }
       
-      resource.addLink(k, includeLinks[k]);
+      resource.addLink(k, link);
     }
   }
-};
 
 
-function translateFilter(filter, extra?) {
-  if (!filter)
-    return extra;
+  /**
+   * Gets the attributes of an included instance of the collection's model, without the relationships included below it.
+   */
+  private _presentIncluded(instance: Sequelize.Instance<any>, tree: IncludeTree, fields: string[] = null): any {
+    return this._presentAttributes(_.omit(instance.get(), Object.keys(tree)), fields);
+  }
+
+
+  /**
+   * Moves the relationships included below an included instance of the collection's model into `nested`,
+   * recording their links against the URL of the instance in `nestedLinks`, as a list of URLs for to-many
+   * relationships.
+   */
+  private _convertNested(instance: Sequelize.Instance<any>, self: string, tree: IncludeTree, nested: Corrieneuch.Resource[], nestedLinks: _.Dictionary<_.Dictionary<string | string[]>>) {
+    const attributes = this._presentIncluded(instance, tree);
 
-  if (filter.$and)
-    filter.$and = filter.$and.map((filter) => translateFilter(filter));
+    for (let k in tree) {
+      const value = instance.get(k);
+      const template = _.template(tree[k].relationship.link);
+      const collection = this._collectionFor(tree[k].relationship);
 
-  if (filter.$or)
-    filter.$or = filter.$or.map((filter) => translateFilter(filter));
-  
-  if (filter.$not)
-    filter.$not = translateFilter(filter);
-  
-  for (let k in filter) {
-    const value = filter[k];
-    
-    if (_.isPlainObject(value)) {
-      if (Object.keys(value).length > 1)
-        throw new Error(`filter key ${k} query is too complex`);
-      
-      if (value.$like) {
-        filter[k] = Sequelize.where(
-          Sequelize.fn('lower', Sequelize.col(k)),
-          {$like: value.$like.toLowerCase()}
-        );
+      if (value == null) {
+        continue;
+
+      } else if (Array.isArray(value)) {
+        let urls: string[] = [];
+
+        for (let v of value) {
+          const included = collection._presentIncluded(v, tree[k].include, tree[k].fields);
+          const url = template(included);
+          nested.push(new Corrieneuch.Resource(url, included));
+          collection._convertNested(v, url, tree[k].include, nested, nestedLinks);
+          urls.push(url);
+        }
+
+        nestedLinks[self] = {...nestedLinks[self], [k]: urls};
+
+      } else {
+        const url = template(attributes);
+        nested.push(new Corrieneuch.Resource(url, collection._presentIncluded(value, tree[k].include, tree[k].fields)));
+        collection._convertNested(value, url, tree[k].include, nested, nestedLinks);
+        nestedLinks[self] = {...nestedLinks[self], [k]: url};
       }
     }
   }
+};
+
+
+function toIncludeOptions(include: SequelizeInclude): Sequelize.IncludeOptions {
+  return (<Sequelize.IncludeOptions>include).model ? <Sequelize.IncludeOptions>include : {model: <Sequelize.Model<any, any>>include};
+}
+
+
+function includeAlias(include: SequelizeInclude): string {
+  const options = toIncludeOptions(include);
+  return options.as || (<any>options.model).name;
+}
+
+
+/**
+ * Runs `callback` in a managed transaction, which is committed if the promise it returns resolves,
+ * or rolled back if it rejects.
+ * @param sequelize the Sequelize connection
+ * @param callback given a function which binds collections to the transaction, and the transaction itself
+ */
+export async function transaction<T>(sequelize: Sequelize.Sequelize, callback: (bind: <TEntity>(collection: DbResourceCollection<TEntity>) => DbResourceCollection<TEntity>, transaction: Sequelize.Transaction) => PromiseLike<T>): Promise<T> {
+  return await sequelize.transaction(
+    (transaction) => callback((collection) => collection.withTransaction(transaction), transaction)
+  );
+}
+
+
+function templateFields(template: string): string[] {
+  const fields = [];
+  const regex = /<%=\s*([\w$]+)\s*%>/g;
+  let match;
+
+  while ((match = regex.exec(template || '')))
+    fields.push(match[1]);
+
+  return fields;
+}
 
-  if (extra) {
-    return {$and: [filter, extra]};
 
-  } else {
-    return filter;
+function relatedId(value) {
+  return _.isPlainObject(value) ? value.id : value;
+}
+
+
+/**
+ * Encodes the values of a key for use in a URL, separated by commas.
+ */
+function encodeKey(values: any[]): string {
+  return values.map((value) => encodeURIComponent(value instanceof Date ? value.toISOString() : String(value))).join(',');
+}
+
+
+/**
+ * Tests whether a value could be held by a key attribute, i.e. is numeric for integer keys, or a UUID for UUID keys.
+ */
+function isKeyValue(attribute: any, value: any): boolean {
+  const type = attribute && attribute.type && attribute.type.key;
+
+  if (type === 'INTEGER' || type === 'BIGINT' || type === 'SMALLINT')
+    return /^-?\d+$/.test(String(value));
+
+  if (type === 'UUID')
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(String(value));
+
+  return true;
+}
+
+
+function andWhere(where, condition) {
+  if (!condition)
+    return where;
+
+  return where ? {$and: [where, condition]} : condition;
+}
+
+
+/**
+ * Gets the text of the `q` parameter from the querystring the query options were parsed from.
+ */
+function searchText(options: Corrieneuch.QueryOptions): string {
+  const q = querystring.parse(options.toString().replace(/^\?/, '')).q;
+  return Array.isArray(q) ? q[0] : q;
+}
+
+
+function numberPageLinks(number: number, pageCount: number, more: boolean = number < pageCount): _.Dictionary<any> {
+  let links: _.Dictionary<any> = {
+    $first: {number: 1}
+  };
+
+  if (pageCount != null)
+    links.$last = {number: pageCount};
+
+  if (number > 1)
+    links.$previous = {number: number - 1};
+
+  if (more)
+    links.$next = {number: number + 1};
+
+  return links;
+}
+
+
+/**
+ * The number of rows `export` fetches at a time, unless the collection's `exportBatchSize` option says otherwise.
+ */
+const defaultExportBatchSize = 1000;
+
+
+/**
+ * Formats a row of CSV, quoting values which need it.
+ */
+function csvLine(values: any[]): string {
+  const cells = values.map((value) => {
+    if (value == null)
+      return '';
+
+    const text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  });
+
+  return cells.join(',') + '\r\n';
+}
+
+
+function encodeCursor(instance: Sequelize.Instance<any>, sort: [string, string][]): string {
+  const values = _.fromPairs(sort.map(([key]) => [key, instance.get(key)]));
+  return Buffer.from(JSON.stringify(values)).toString('base64');
+}
+
+
+function decodeCursor(cursor: string, sort: [string, string][]): _.Dictionary<any> {
+  let values;
+
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64').toString());
+  } catch (err) {
+    values = null;
   }
+
+  if (!_.isPlainObject(values) || sort.some(([key]) => !(key in values) || !isCursorValue(values[key])))
+    throw new InvalidQueryError('invalid page cursor');
+
+  return values;
+}
+
+
+function isCursorValue(value): boolean {
+  return value === null || typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && isFinite(value));
+}
+
+
+/**
+ * Gets the order of the rows for keyset paging, with NULL after every other value, as Postgres has it by default,
+ * so that `translateCursor` can tell which rows come after a cursor.
+ */
+function cursorOrder(sort: [string, string][], backwards: boolean): [string, string][] {
+  return sort.map(([key, direction]): [string, string] =>
+    (direction === 'ASC') !== backwards ? [key, 'ASC NULLS LAST'] : [key, 'DESC NULLS FIRST']
+  );
+}
+
+
+function translateCursor(sort: [string, string][], values: _.Dictionary<any>, backwards: boolean) {
+  // (a > x) OR (a = x AND b > y) OR (a = x AND b = y AND c > z) ..., where NULL is greater than every value
+  const $or = _.compact(sort.map(([key, direction], i) => {
+    const preceding = _.fromPairs(sort.slice(0, i).map(([key]) => [key, values[key]]));
+    const value = values[key];
+
+    if ((direction === 'ASC') !== backwards) {
+      return value == null ? null : {...preceding, $or: [{[key]: {$gt: value}}, {[key]: null}]};
+    } else {
+      return {...preceding, [key]: value == null ? {$ne: null} : {$lt: value}};
+    }
+  }));
+
+  return {$or};
 }
@@ -23,6 +23,10 @@ interface Post {
   authorId: number;
 }
 
+interface Tag {
+  name: string;
+}
+
 test.before(async (t) => {
   db = new Sequelize(config.connectionString);
   await db.query('CREATE SCHEMA sequelizesuperapi');
@@ -73,6 +77,18 @@ async function definePost(User: Db.EntityModel<User>) {
 }
 
 
+async function defineTag(Post: Db.EntityModel<Post>) {
+  let Tag = await db.define<Sequelize.Instance<Tag>, Tag>(tbl('tags'), {
+    name: Sequelize.STRING
+  });
+
+  Post.belongsToMany(Tag, {through: tbl('post_tags'), as: 'tags', foreignKey: 'postId', otherKey: 'tagId'});
+  await Tag.sync();
+  await (<any>Post).associations.tags.through.model.sync();
+  return Tag;
+}
+
+
 test('list', async (t) => {
   let User = await defineUser();
 
@@ -109,6 +125,58 @@ test('list constraint', async (t) => {
 });
 
 
+test('list count none', async (t) => {
+  let User = await defineUser();
+
+  await User.bulkCreate([
+    {name: 'Fred Flintstone', email: 'fred@gmail.com'},
+    {name: 'Wilma Flintstone', email: 'wilma@gmail.com'},
+    {name: 'Barney Rubble', email: 'barney@gmail.com'}
+  ]);
+
+  let resource = new DbResource(User, {}, {count: 'none'});
+  let result = await resource.list('/users', new Corrieneuch.QueryOptions({page: {number: 1, size: 2}}));
+
+  t.is(result.elements.length, 2);
+  t.is(result.meta.count, undefined);
+  t.is(result.meta.page.count, undefined);
+  t.truthy(result.links.$next);
+  t.falsy(result.links.$last);
+
+  result = await resource.list('/users', new Corrieneuch.QueryOptions({page: {number: 2, size: 2}}));
+  t.is(result.elements.length, 1);
+  t.falsy(result.links.$next);
+
+  result = await resource.withCount('exact').list('/users', new Corrieneuch.QueryOptions({page: {number: 1, size: 2}}));
+  t.is(result.meta.count, 3);
+});
+
+
+test('list count estimated', async (t) => {
+  let User = await defineUser();
+
+  await User.bulkCreate([
+    {name: 'Fred Flintstone', email: 'fred@gmail.com'},
+    {name: 'Wilma Flintstone', email: 'wilma@gmail.com'}
+  ]);
+
+  let resource = new DbResource(User).withCount('estimated');
+  let result = await resource.list('/users', new Corrieneuch.QueryOptions({page: {number: 1, size: 1}}));
+
+  t.is(result.elements.length, 1);
+  t.true(result.meta.approximate);
+  t.true(result.meta.count >= 2);
+  t.truthy(result.links.$next);
+
+  result = await resource.list('/users', new Corrieneuch.QueryOptions({filter: {name: 'Fred Flintstone'}, page: {number: 1, size: 1}}));
+
+  t.is(result.elements.length, 1);
+  t.falsy(result.meta.approximate);
+  t.is(result.meta.count, undefined);
+  t.falsy(result.links.$next);
+});
+
+
 test('list fields', async (t) => {
   let User = await defineUser();
 
@@ -173,6 +241,45 @@ test('list filter constraint', async (t) => {
 });
 
 
+test('list filter operators', async (t) => {
+  let User = await defineUser();
+
+  await User.bulkCreate([
+    {name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1},
+    {name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 2},
+    {name: 'Barney Rubble', email: 'barney@gmail.com', groupId: 3},
+    {name: 'Betty Rubble', email: 'betty@gmail.com'}
+  ]);
+
+  let resource = new DbResource(User);
+
+  let range = await resource.list('/users', new Corrieneuch.QueryOptions({filter: {groupId: {$gte: 2, $lt: 3}}}));
+  t.is(range.elements.length, 1);
+  t.is(range.elements[0].attributes.name, 'Wilma Flintstone');
+
+  let notIn = await resource.list('/users', new Corrieneuch.QueryOptions({filter: {groupId: {$nin: [1, 2]}, name: {$like: '%rubble'}}}));
+  t.is(notIn.elements.length, 1);
+  t.is(notIn.elements[0].attributes.name, 'Barney Rubble');
+
+  let missing = await resource.list('/users', new Corrieneuch.QueryOptions({filter: {groupId: {$exists: false}}}));
+  t.is(missing.elements.length, 1);
+  t.is(missing.elements[0].attributes.name, 'Betty Rubble');
+
+  let not = await resource.list('/users', new Corrieneuch.QueryOptions({filter: {$not: {name: {$like: '%flintstone'}}, groupId: {$ne: null}}}));
+  t.is(not.elements.length, 1);
+  t.is(not.elements[0].attributes.name, 'Barney Rubble');
+});
+
+
+test('list filter unsupported operator', async (t) => {
+  let User = await defineUser();
+  let resource = new DbResource(User);
+
+  let err = await t.throws(resource.list('/users', new Corrieneuch.QueryOptions({filter: {groupId: {$mod: [2, 0]}}})));
+  t.true(err instanceof Db.InvalidQueryError);
+});
+
+
 test('list include', async (t) => {
   let User = await defineUser();
   let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
@@ -227,62 +334,137 @@ test('list include outer', async (t) => {
 });
 
 
-test('get', async (t) => {
-  let User = await defineUser();
-  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+test('list include filter like', async (t) => {
+  let Group = await defineGroup();
+  let User = await defineUser(Group);
 
-  let resource = new DbResource(User);
-  let result = await resource.get('/users/1', fred.get('id'), new Corrieneuch.QueryOptions({}));
+  let group = await Group.create({name: 'Flintstones'});
+  await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: group.get('id')});
+  await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: group.get('id')});
 
-  t.is(result.attributes.id, fred.get('id'));
-  t.is(result.attributes.name, 'Fred Flintstone');
-  t.is(result.attributes.email, 'fred@gmail.com');
+  let resource = new DbResource(User, {
+    group: {
+      relationship: {model: Group, as: 'group'},
+      link: '/groups/<%=groupId%>'
+    }
+  }, {
+    policy: {filter: () => ({name: {$like: '%flintstone'}})}
+  });
+
+  let result = await resource.list('/users', new Corrieneuch.QueryOptions({include: 'group', filter: {name: {$like: 'fred%'}}}));
+
+  t.is(result.elements.length, 1);
+  t.is(result.elements[0].attributes.name, 'Fred Flintstone');
+  t.is(result.includes[0].attributes.name, 'Flintstones');
 });
 
 
-test('get constraint', async (t) => {
-  let User = await defineUser();
-  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1});
+test('list include nested', async (t) => {
+  let Group = await defineGroup();
+  let User = await defineUser(Group);
+  let Post = await definePost(User);
 
-  let resource = new DbResource(User);
-  let result = await resource.get('/users/1', fred.get('id'), new Corrieneuch.QueryOptions({}), {groupId: 1});
+  let group = await Group.create({name: 'group 1'});
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: group.get('id')});
+  await Post.create({title: 'Hello, world', authorId: fred.get('id')});
+  await Post.create({title: 'Yabba dabba doo', authorId: fred.get('id')});
 
-  t.is(result.attributes.id, fred.get('id'));
-  t.is(result.attributes.name, 'Fred Flintstone');
-  t.is(result.attributes.email, 'fred@gmail.com');
+  let users = new DbResource(User, {
+    group: {
+      relationship: {model: Group, as: 'group'},
+      link: '/groups/<%=groupId%>'
+    }
+  });
+
+  let posts = new DbResource(Post, {
+    author: {
+      relationship: {model: User, as: 'author'},
+      link: '/users/<%=authorId%>',
+      collection: users
+    }
+  });
+
+  let result = await posts.list('/posts', new Corrieneuch.QueryOptions({include: 'author.group'}));
+
+  t.is(result.elements.length, 2);
+  t.is(result.includes.length, 2);
+
+  let author = result.includes.filter((x) => x.links.$self === '/users/' + fred.get('id'))[0];
+  t.is(author.attributes.name, 'Fred Flintstone');
+  t.falsy(author.attributes.group);
+  t.is(author.links.group, '/groups/' + group.get('id'));
+
+  let authorGroup = result.includes.filter((x) => x.links.$self === '/groups/' + group.get('id'))[0];
+  t.is(authorGroup.attributes.name, 'group 1');
 });
 
 
-test('get constraint missing', async (t) => {
+test('list include nested to-many', async (t) => {
   let User = await defineUser();
-  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1});
+  let Post = await definePost(User);
+  User.hasMany(Post, {foreignKey: 'authorId', as: 'posts'});
 
-  let resource = new DbResource(User);
-  let result = await resource.get('/users/1', fred.get('id'), new Corrieneuch.QueryOptions({}), {groupId: 2});
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  let hello = await Post.create({title: 'Hello, world', authorId: fred.get('id')});
+  let yabba = await Post.create({title: 'Yabba dabba doo', authorId: fred.get('id')});
 
-  t.is(result, null);
+  let users = new DbResource(User, {
+    posts: {
+      relationship: {model: Post, as: 'posts'},
+      link: '/posts/<%=id%>'
+    }
+  });
+
+  let posts = new DbResource(Post, {
+    author: {
+      relationship: {model: User, as: 'author'},
+      link: '/users/<%=authorId%>',
+      collection: users
+    }
+  });
+
+  let result = await posts.get('/posts', hello.get('id'), new Corrieneuch.QueryOptions({include: 'author.posts'}));
+
+  let author = result.includes.filter((x) => x.links.$self === '/users/' + fred.get('id'))[0];
+  t.deepEqual(author.links.posts, ['/posts/' + hello.get('id'), '/posts/' + yabba.get('id')]);
+  t.true(result.includes.some((x) => x.links.$self === '/posts/' + yabba.get('id')));
 });
 
 
-test('get fields', async (t) => {
+test('list include to-many', async (t) => {
   let User = await defineUser();
+  let Post = await definePost(User);
+  User.hasMany(Post, {foreignKey: 'authorId', as: 'posts'});
+
   let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  let wilma = await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com'});
+  await Post.create({title: 'Hello, world', authorId: fred.get('id')});
+  await Post.create({title: 'Yabba dabba doo', authorId: fred.get('id')});
+  await Post.create({title: 'Pebbles', authorId: wilma.get('id')});
 
-  let resource = new DbResource(User);
-  let result = await resource.get('/users/1', fred.get('id'), new Corrieneuch.QueryOptions({fields: {$self: 'name'}}));
+  let users = new DbResource(User, {
+    posts: {
+      relationship: {model: Post, as: 'posts'},
+      link: '/posts/<%=id%>'
+    }
+  });
 
-  t.is(result.attributes.id, fred.get('id'));
-  t.is(result.attributes.name, 'Fred Flintstone');
-  t.falsy(result.attributes.email);
+  let result = await users.list('/users', new Corrieneuch.QueryOptions({include: 'posts', sort: 'name', page: {number: 1, size: 1}}));
+
+  t.is(result.elements.length, 1);
+  t.is(result.meta.count, 2);
+  t.is(result.elements[0].attributes.name, 'Fred Flintstone');
+  t.is(result.includes.length, 2);
+  t.deepEqual(result.includes.map((x) => x.attributes.title).sort(), ['Hello, world', 'Yabba dabba doo']);
 });
 
 
-test('get include', async (t) => {
+test('list include fields', async (t) => {
   let User = await defineUser();
   let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
 
   let Post = await definePost(User);
-  let post = await Post.create({title: 'Hello, world', authorId: fred.get('id')});
+  await Post.create({title: 'Hello, world', authorId: fred.get('id')});
 
   let resource = new DbResource(Post, {
     author: {
@@ -291,132 +473,1310 @@ test('get include', async (t) => {
     }
   });
 
-  let result = await resource.get('/users/1', fred.get('id'), new Corrieneuch.QueryOptions({include: 'author'}));
+  let result = await resource.list('/posts', new Corrieneuch.QueryOptions({include: 'author', fields: {$self: 'title', author: 'name'}}));
 
-  t.is(result.attributes.id, post.get('id'));
-  t.is(result.attributes.title, 'Hello, world');
+  t.is(result.elements.length, 1);
+  t.is(result.elements[0].attributes.title, 'Hello, world');
+  t.is(result.elements[0].links.author, '/users/' + fred.get('id'));
   t.is(result.includes.length, 1);
-  t.is(result.includes[0].links.$self, '/users/' + fred.get('id'));
   t.is(result.includes[0].attributes.name, 'Fred Flintstone');
+  t.falsy(result.includes[0].attributes.email);
 });
 
 
-test('get missing', async (t) => {
+test('list filter relationship', async (t) => {
   let User = await defineUser();
-  let resource = new DbResource(User);
-  let result = await resource.get('/users/1', 5, new Corrieneuch.QueryOptions({}));
-
-  t.is(result, null);
-});
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  let barney = await User.create({name: 'Barney Rubble', email: 'barney@gmail.com'});
 
+  let Post = await definePost(User);
+  await Post.create({title: 'Yabba dabba doo', authorId: fred.get('id')});
+  await Post.create({title: 'Hiya Fred', authorId: barney.get('id')});
 
-test('create', async (t) => {
-  let User = await defineUser();
-  let resource = new DbResource(User);
+  let resource = new DbResource(Post, {
+    author: {
+      relationship: {model: User, as: 'author'},
+      link: '/users/<%=authorId%>'
+    }
+  });
 
-  let result = await resource.create('/users/1', {attributes: {
-    name: 'Fred Flintstone',
-    email: 'fred@gmail.com'
-  }});
+  let result = await resource.list('/posts', new Corrieneuch.QueryOptions({filter: {'author.name': {$like: 'fred%'}}}));
 
-  let users = await User.findAll();
-  t.is(users.length, 1);
-  t.is(users[0].get('name'), 'Fred Flintstone');
+  t.is(result.elements.length, 1);
+  t.is(result.elements[0].attributes.title, 'Yabba dabba doo');
+  t.falsy(result.elements[0].attributes.author);
 });
 
 
-test('create constraint pass', async (t) => {
+test('list filter to-many relationship', async (t) => {
   let User = await defineUser();
-  let resource = new DbResource(User);
-
-  let result = await resource.create('/users/1', {attributes: {
-    name: 'Fred Flintstone',
-    email: 'fred@gmail.com',
-    groupId: 2
-  }}, {groupId: 2});
+  let Post = await definePost(User);
+  User.hasMany(Post, {foreignKey: 'authorId', as: 'posts'});
 
-  let users = await User.findAll();
-  t.is(users.length, 1);
-  t.is(users[0].get('name'), 'Fred Flintstone');
-  t.is(users[0].get('groupId'), 2);
-});
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  let barney = await User.create({name: 'Barney Rubble', email: 'barney@gmail.com'});
+  await Post.create({title: 'Yabba dabba doo', authorId: fred.get('id')});
+  await Post.create({title: 'Yabba dabba don\'t', authorId: fred.get('id')});
+  await Post.create({title: 'Hiya Fred', authorId: barney.get('id')});
 
+  let resource = new DbResource(User, {
+    posts: {
+      relationship: {model: Post, as: 'posts'},
+      link: '/posts/<%=id%>'
+    }
+  });
 
-test('create constraint fail', async (t) => {
-  let User = await defineUser();
-  let resource = new DbResource(User);
+  let result = await resource.list('/users', new Corrieneuch.QueryOptions({filter: {'posts.title': {$like: 'yabba%'}}}));
 
-  await t.throws(resource.create('/users/1', {attributes: {
-    name: 'Fred Flintstone',
-    email: 'fred@gmail.com',
-    groupId: 1
-  }}, {groupId: 2}));
+  t.is(result.meta.count, 1);
+  t.is(result.elements.length, 1);
+  t.is(result.elements[0].attributes.name, 'Fred Flintstone');
 });
 
 
-test('update', async (t) => {
+test('list include filter to-many relationship', async (t) => {
   let User = await defineUser();
-  let wilma = await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com'});
+  let Post = await definePost(User);
+  User.hasMany(Post, {foreignKey: 'authorId', as: 'posts'});
 
-  let resource = new DbResource(User);
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  let barney = await User.create({name: 'Barney Rubble', email: 'barney@gmail.com'});
+  await Post.create({title: 'Yabba dabba doo', authorId: fred.get('id')});
+  await Post.create({title: 'Hello, world', authorId: fred.get('id')});
+  await Post.create({title: 'Hiya Fred', authorId: barney.get('id')});
 
-  let result = await resource.update('/users/1', 1, {attributes: {
-    name: 'Wilma Rubble' // poor Fred
-  }});
+  let resource = new DbResource(User, {
+    posts: {
+      relationship: {model: Post, as: 'posts'},
+      link: '/posts/<%=id%>'
+    }
+  });
 
-  let updated = await User.findById(wilma.get('id'));
-  t.is(updated.get('name'), 'Wilma Rubble');
-  t.is(updated.get('email'), 'wilma@gmail.com');
+  let result = await resource.list('/users', new Corrieneuch.QueryOptions({include: 'posts', filter: {'posts.title': {$like: 'yabba%'}}}));
+
+  t.is(result.meta.count, 1);
+  t.is(result.elements.length, 1);
+  t.is(result.elements[0].attributes.name, 'Fred Flintstone');
+  t.deepEqual(result.includes.map((x) => x.attributes.title).sort(), ['Hello, world', 'Yabba dabba doo']);
 });
 
 
-test('update constraint pass', async (t) => {
+test('list filter to-many relationship paging', async (t) => {
   let User = await defineUser();
-  let wilma = await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 1});
+  let Post = await definePost(User);
+  User.hasMany(Post, {foreignKey: 'authorId', as: 'posts'});
 
-  let resource = new DbResource(User);
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  let barney = await User.create({name: 'Barney Rubble', email: 'barney@gmail.com'});
+  await Post.create({title: 'Yabba dabba doo', authorId: fred.get('id')});
+  await Post.create({title: 'Yabba dabba don\'t', authorId: fred.get('id')});
+  await Post.create({title: 'Yabba yabba', authorId: barney.get('id')});
 
-  let result = await resource.update('/users/1', 1, {attributes: {
-    name: 'Wilma Rubble',
-    groupId: 1
-  }}, {groupId: 1});
+  let resource = new DbResource(User, {
+    posts: {
+      relationship: {model: Post, as: 'posts'},
+      link: '/posts/<%=id%>'
+    }
+  });
 
-  let updated = await User.findById(wilma.get('id'));
-  t.is(updated.get('name'), 'Wilma Rubble');
-  t.is(updated.get('email'), 'wilma@gmail.com');
+  let filter = {'posts.title': {$like: 'yabba%'}};
+  let result = await resource.list('/users', new Corrieneuch.QueryOptions({filter, sort: 'name', page: {number: 1, size: 1}}));
+
+  t.is(result.meta.count, 2);
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['Barney Rubble']);
+
+  result = await resource.list('/users', new Corrieneuch.QueryOptions({filter, sort: 'name', page: {number: 2, size: 1}}));
+
+  t.is(result.meta.count, 2);
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['Fred Flintstone']);
 });
 
 
-test('update constraint missing', async (t) => {
+test('list sort to-many relationship', async (t) => {
   let User = await defineUser();
-  let wilma = await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 1});
+  let Post = await definePost(User);
+  User.hasMany(Post, {foreignKey: 'authorId', as: 'posts'});
 
-  let resource = new DbResource(User);
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  let barney = await User.create({name: 'Barney Rubble', email: 'barney@gmail.com'});
+  await Post.create({title: 'Apples', authorId: fred.get('id')});
+  await Post.create({title: 'Zebras', authorId: fred.get('id')});
+  await Post.create({title: 'Mangoes', authorId: barney.get('id')});
 
-  let result = await resource.update('/users/1', 1, {attributes: {
-    name: 'Wilma Rubble',
-    groupId: 2
-  }}, {groupId: 2});
+  let resource = new DbResource(User, {
+    posts: {
+      relationship: {model: Post, as: 'posts'},
+      link: '/posts/<%=id%>'
+    }
+  });
 
-  let updated = await User.findById(wilma.get('id'));
+  let result = await resource.list('/users', new Corrieneuch.QueryOptions({sort: 'posts.title'}));
+  t.is(result.meta.count, 2);
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['Fred Flintstone', 'Barney Rubble']);
 
-  t.is(result, null);
+  result = await resource.list('/users', new Corrieneuch.QueryOptions({sort: '-posts.title'}));
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['Fred Flintstone', 'Barney Rubble']);
+
+  result = await resource.list('/users', new Corrieneuch.QueryOptions({sort: '-posts.title', page: {number: 2, size: 1}}));
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['Barney Rubble']);
 });
 
 
-test('update constraint violation', async (t) => {
+test('list sort relationship', async (t) => {
   let User = await defineUser();
-  let wilma = await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 1});
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  let barney = await User.create({name: 'Barney Rubble', email: 'barney@gmail.com'});
 
-  let resource = new DbResource(User);
+  let Post = await definePost(User);
+  await Post.create({title: 'Yabba dabba doo', authorId: fred.get('id')});
+  await Post.create({title: 'Hiya Fred', authorId: barney.get('id')});
 
-  await t.throws(resource.update('/users/1', 1, {attributes: {
+  let resource = new DbResource(Post, {
+    author: {
+      relationship: {model: User, as: 'author'},
+      link: '/users/<%=authorId%>'
+    }
+  });
+
+  let result = await resource.list('/posts', new Corrieneuch.QueryOptions({sort: '-author.name', include: 'author'}));
+
+  t.is(result.elements.length, 2);
+  t.is(result.elements[0].attributes.title, 'Yabba dabba doo');
+  t.is(result.elements[1].attributes.title, 'Hiya Fred');
+  t.is(result.includes.length, 2);
+});
+
+
+test('list filter unknown relationship', async (t) => {
+  let User = await defineUser();
+  let resource = new DbResource(User);
+
+  let err = await t.throws(resource.list('/users', new Corrieneuch.QueryOptions({filter: {'group.name': 'group 1'}})));
+  t.true(err instanceof Db.InvalidQueryError);
+});
+
+
+function cursorFrom(link: string, direction: string) {
+  const match = new RegExp(direction + '[^=]*=([^&]+)').exec(link);
+  return match && decodeURIComponent(match[1]);
+}
+
+
+test('list search', async (t) => {
+  let User = await defineUser();
+
+  await User.bulkCreate([
+    {name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1},
+    {name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 2},
+    {name: 'Barney Rubble', email: 'barney@gmail.com', groupId: 1}
+  ]);
+
+  let resource = new DbResource(User, {}, {search: ['name', 'email']});
+  let result = await resource.withSearch('flintstone').list('/users', new Corrieneuch.QueryOptions({sort: 'name'}));
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['Fred Flintstone', 'Wilma Flintstone']);
+
+  result = await resource.withSearch('flintstone').list('/users', new Corrieneuch.QueryOptions({}), {groupId: 1});
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['Fred Flintstone']);
+
+  result = await resource.withSearch('').list('/users', new Corrieneuch.QueryOptions({}));
+  t.is(result.elements.length, 3);
+});
+
+
+test('list search query', async (t) => {
+  let User = await defineUser();
+
+  await User.bulkCreate([
+    {name: 'Fred Flintstone', email: 'fred@gmail.com'},
+    {name: 'Wilma Flintstone', email: 'wilma@gmail.com'},
+    {name: 'Barney Rubble', email: 'barney_rubble@gmail.com'}
+  ]);
+
+  let resource = new DbResource(User, {}, {search: ['name', 'email']});
+  let result = await resource.list('/users', new Corrieneuch.QueryOptions({q: 'flintstone', sort: 'name'}));
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['Fred Flintstone', 'Wilma Flintstone']);
+
+  result = await resource.withSearch('rubble').list('/users', new Corrieneuch.QueryOptions({q: 'flintstone'}));
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['Barney Rubble']);
+});
+
+
+test('list search rank', async (t) => {
+  let User = await defineUser();
+
+  await User.bulkCreate([
+    {name: 'Fred Flintstone', email: 'fred@gmail.com'},
+    {name: 'Fred Fred Fredson', email: 'fred.fredson@gmail.com'},
+    {name: 'Barney Rubble', email: 'barney@gmail.com'}
+  ]);
+
+  let resource = new DbResource(User, {}, {search: {fields: ['name', 'email'], rank: true}});
+  let result = await resource.withSearch('fred').list('/users', new Corrieneuch.QueryOptions({}));
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['Fred Fred Fredson', 'Fred Flintstone']);
+});
+
+
+test('list cursor', async (t) => {
+  let User = await defineUser();
+
+  await User.bulkCreate([
+    {name: 'Barney Rubble', email: 'barney@gmail.com'},
+    {name: 'Fred Flintstone', email: 'fred@gmail.com'},
+    {name: 'Wilma Flintstone', email: 'wilma@gmail.com'}
+  ]);
+
+  let resource = new DbResource(User, {}, {paging: 'cursor'});
+  let first = await resource.list('/users', new Corrieneuch.QueryOptions({sort: 'name', page: {size: 2}}));
+
+  t.is(first.elements.length, 2);
+  t.is(first.elements[0].attributes.name, 'Barney Rubble');
+  t.is(first.elements[1].attributes.name, 'Fred Flintstone');
+  t.falsy(first.links.$previous);
+  t.truthy(first.links.$next);
+
+  let after = cursorFrom(first.links.$next, 'after');
+  let second = await resource.list('/users', new Corrieneuch.QueryOptions({sort: 'name', page: {size: 2, after}}));
+
+  t.is(second.elements.length, 1);
+  t.is(second.elements[0].attributes.name, 'Wilma Flintstone');
+  t.falsy(second.links.$next);
+  t.truthy(second.links.$previous);
+
+  let before = cursorFrom(second.links.$previous, 'before');
+  let third = await resource.list('/users', new Corrieneuch.QueryOptions({sort: 'name', page: {size: 2, before}}));
+
+  t.is(third.elements.length, 2);
+  t.is(third.elements[0].attributes.name, 'Barney Rubble');
+  t.is(third.elements[1].attributes.name, 'Fred Flintstone');
+  t.falsy(third.links.$previous);
+  t.truthy(third.links.$next);
+});
+
+
+test('list cursor invalid', async (t) => {
+  let User = await defineUser();
+  let resource = new DbResource(User, {}, {paging: 'cursor'});
+
+  await t.throws(resource.list('/users', new Corrieneuch.QueryOptions({page: {size: 2, after: 'nonsense'}})));
+
+  let after = Buffer.from(JSON.stringify({id: {$gt: 0}})).toString('base64');
+  let err = await t.throws(resource.list('/users', new Corrieneuch.QueryOptions({page: {size: 2, after}})));
+  t.true(err instanceof Db.InvalidQueryError);
+});
+
+
+test('list cursor null', async (t) => {
+  let User = await defineUser();
+
+  await User.bulkCreate([
+    {name: 'Barney Rubble', email: 'barney@gmail.com', groupId: 2},
+    {name: 'Fred Flintstone', email: 'fred@gmail.com'},
+    {name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 1},
+    {name: 'Pebbles Flintstone', email: 'pebbles@gmail.com'}
+  ]);
+
+  let resource = new DbResource(User, {}, {paging: 'cursor'});
+
+  for (let sort of ['groupId', '-groupId']) {
+    let names: string[] = [];
+    let page = await resource.list('/users', new Corrieneuch.QueryOptions({sort, page: {size: 1}}));
+    names.push(...page.elements.map((x) => x.attributes.name));
+
+    while (page.links.$next) {
+      let after = cursorFrom(page.links.$next, 'after');
+      page = await resource.list('/users', new Corrieneuch.QueryOptions({sort, page: {size: 1, after}}));
+      names.push(...page.elements.map((x) => x.attributes.name));
+    }
+
+    let expected = ['Wilma Flintstone', 'Barney Rubble', 'Fred Flintstone', 'Pebbles Flintstone'];
+    t.deepEqual(names, sort === 'groupId' ? expected : [...expected.slice(2), ...expected.slice(0, 2).reverse()]);
+
+    let before = cursorFrom(page.links.$previous, 'before');
+    page = await resource.list('/users', new Corrieneuch.QueryOptions({sort, page: {size: 3, before}}));
+    t.deepEqual(page.elements.map((x) => x.attributes.name), names.slice(0, 3));
+  }
+});
+
+
+test('listRelated', async (t) => {
+  let User = await defineUser();
+  let Post = await definePost(User);
+  User.hasMany(Post, {foreignKey: 'authorId', as: 'posts'});
+
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1});
+  let barney = await User.create({name: 'Barney Rubble', email: 'barney@gmail.com', groupId: 2});
+
+  await Post.bulkCreate([
+    {title: 'Yabba', authorId: fred.get('id')},
+    {title: 'Dabba', authorId: fred.get('id')},
+    {title: 'Doo', authorId: barney.get('id')}
+  ]);
+
+  let resource = new DbResource(User, {
+    posts: {relationship: {model: Post, as: 'posts'}, link: '/users/<%=id%>/posts'}
+  });
+
+  let result = await resource.listRelated('/users/1/posts', fred.get('id'), 'posts', new Corrieneuch.QueryOptions({sort: 'title'}));
+  t.is(result.meta.count, 2);
+  t.deepEqual(result.elements.map((x) => x.attributes.title), ['Dabba', 'Yabba']);
+
+  result = await resource.listRelated('/users/1/posts', fred.get('id'), 'posts', new Corrieneuch.QueryOptions({filter: {title: 'Yabba'}}));
+  t.deepEqual(result.elements.map((x) => x.attributes.title), ['Yabba']);
+
+  t.is(await resource.listRelated('/users/1/posts', fred.get('id'), 'posts', new Corrieneuch.QueryOptions({}), {groupId: 2}), null);
+  t.is(await resource.listRelated('/users/0/posts', 0, 'posts', new Corrieneuch.QueryOptions({})), null);
+});
+
+
+test('listRelated many-to-many', async (t) => {
+  let User = await defineUser();
+  let Post = await definePost(User);
+  let Tag = await defineTag(Post);
+
+  let tags = await Tag.bulkCreate([{name: 'news'}, {name: 'rocks'}, {name: 'sport'}], {returning: true});
+  let yabba = await Post.create({title: 'Yabba', authorId: null});
+  let dabba = await Post.create({title: 'Dabba', authorId: null});
+  await (<any>yabba).setTags([tags[0].get('id'), tags[1].get('id')]);
+  await (<any>dabba).setTags([tags[1].get('id'), tags[2].get('id')]);
+
+  let resource = new DbResource(Post, {
+    tags: {relationship: {model: Tag, as: 'tags'}, link: '/tags'}
+  });
+
+  let result = await resource.listRelated('/posts/1/tags', yabba.get('id'), 'tags', new Corrieneuch.QueryOptions({sort: 'name'}));
+  t.is(result.meta.count, 2);
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['news', 'rocks']);
+  t.deepEqual(Object.keys(result.elements[0].attributes).sort(), ['createdAt', 'id', 'name', 'updatedAt']);
+
+  result = await resource.listRelated('/posts/2/tags', dabba.get('id'), 'tags', new Corrieneuch.QueryOptions({filter: {name: 'sport'}}));
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['sport']);
+});
+
+
+test('aggregate', async (t) => {
+  let User = await defineUser();
+
+  await User.bulkCreate([
+    {name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1},
+    {name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 1},
+    {name: 'Barney Rubble', email: 'barney@gmail.com', groupId: 2}
+  ]);
+
+  let resource = new DbResource(User);
+  let result = await resource.aggregate('/users/stats', new Corrieneuch.QueryOptions({sort: '-users'}), {
+    groupBy: ['groupId'],
+    aggregates: {users: {fn: 'count'}, maxId: {fn: 'max', field: 'id'}}
+  });
+
+  t.is(result.meta.count, 2);
+  t.deepEqual(result.elements.map((x) => [x.attributes.groupId, x.attributes.users]), [[1, 2], [2, 1]]);
+});
+
+
+test('aggregate constraint', async (t) => {
+  let User = await defineUser();
+
+  await User.bulkCreate([
+    {name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1},
+    {name: 'Barney Rubble', email: 'barney@gmail.com', groupId: 2}
+  ]);
+
+  let resource = new DbResource(User);
+  let result = await resource.aggregate('/users/stats', new Corrieneuch.QueryOptions({}), {
+    aggregates: {users: {fn: 'count'}, total: {fn: 'sum', field: 'groupId'}}
+  }, {groupId: 2});
+
+  t.is(result.elements.length, 1);
+  t.is(result.elements[0].attributes.users, 1);
+  t.is(result.elements[0].attributes.total, 2);
+});
+
+
+test('aggregate invalid', async (t) => {
+  let User = await defineUser();
+  let resource = new DbResource(User);
+
+  let err = await t.throws(resource.aggregate('/users/stats', new Corrieneuch.QueryOptions({}), {
+    aggregates: {total: {fn: 'sum', field: 'password'}}
+  }));
+
+  t.true(err instanceof Db.InvalidQueryError);
+
+  err = await t.throws(resource.aggregate('/users/stats', new Corrieneuch.QueryOptions({sort: 'name'}), {
+    groupBy: ['groupId'],
+    aggregates: {users: {fn: 'count'}}
+  }));
+
+  t.true(err instanceof Db.InvalidQueryError);
+});
+
+
+function readStream(stream: NodeJS.ReadableStream): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let text = '';
+    stream.on('data', (chunk) => text += chunk);
+    stream.on('end', () => resolve(text));
+    stream.on('error', reject);
+  });
+}
+
+
+test('export ndjson', async (t) => {
+  let User = await defineUser();
+
+  await User.bulkCreate([
+    {name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 1},
+    {name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1},
+    {name: 'Barney Rubble', email: 'barney@gmail.com', groupId: 2}
+  ]);
+
+  let resource = new DbResource(User);
+  let text = await readStream(resource.export(new Corrieneuch.QueryOptions({sort: 'name', fields: {$self: 'name'}}), {groupId: 1}));
+  let lines = text.trim().split('\n').map((line) => JSON.parse(line));
+
+  t.deepEqual(lines.map((line) => line.name), ['Fred Flintstone', 'Wilma Flintstone']);
+  t.falsy(lines[0].email);
+});
+
+
+test('export null sort keys', async (t) => {
+  let User = await defineUser();
+
+  await User.bulkCreate([
+    {name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 1},
+    {name: 'Fred Flintstone', email: 'fred@gmail.com'},
+    {name: 'Barney Rubble', email: 'barney@gmail.com', groupId: 2},
+    {name: 'Pebbles Flintstone', email: 'pebbles@gmail.com'}
+  ]);
+
+  let resource = new DbResource(User, {}, {exportBatchSize: 1});
+  let text = await readStream(resource.export(new Corrieneuch.QueryOptions({sort: 'groupId'})));
+  let lines = text.trim().split('\n').map((line) => JSON.parse(line));
+
+  t.deepEqual(lines.map((line) => line.name), ['Wilma Flintstone', 'Barney Rubble', 'Fred Flintstone', 'Pebbles Flintstone']);
+
+  text = await readStream(resource.export(new Corrieneuch.QueryOptions({sort: '-groupId'})));
+  lines = text.trim().split('\n').map((line) => JSON.parse(line));
+
+  t.deepEqual(lines.map((line) => line.name), ['Fred Flintstone', 'Pebbles Flintstone', 'Barney Rubble', 'Wilma Flintstone']);
+});
+
+
+test('export csv', async (t) => {
+  let User = await defineUser();
+  await User.create({name: 'Flintstone, Fred', email: 'fred@gmail.com'});
+
+  let resource = new DbResource(User);
+  let text = await readStream(resource.export(new Corrieneuch.QueryOptions({fields: {$self: 'name'}}), null, 'csv'));
+  let lines = text.trim().split('\r\n');
+
+  t.is(lines.length, 2);
+  t.true(lines[0].indexOf('name') !== -1);
+  t.true(lines[0].indexOf('email') === -1);
+  t.true(lines[1].indexOf('"Flintstone, Fred"') !== -1);
+});
+
+
+test('get', async (t) => {
+  let User = await defineUser();
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+
+  let resource = new DbResource(User);
+  let result = await resource.get('/users/1', fred.get('id'), new Corrieneuch.QueryOptions({}));
+
+  t.is(result.attributes.id, fred.get('id'));
+  t.is(result.attributes.name, 'Fred Flintstone');
+  t.is(result.attributes.email, 'fred@gmail.com');
+});
+
+
+test('get constraint', async (t) => {
+  let User = await defineUser();
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1});
+
+  let resource = new DbResource(User);
+  let result = await resource.get('/users/1', fred.get('id'), new Corrieneuch.QueryOptions({}), {groupId: 1});
+
+  t.is(result.attributes.id, fred.get('id'));
+  t.is(result.attributes.name, 'Fred Flintstone');
+  t.is(result.attributes.email, 'fred@gmail.com');
+});
+
+
+test('get constraint missing', async (t) => {
+  let User = await defineUser();
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1});
+
+  let resource = new DbResource(User);
+  let result = await resource.get('/users/1', fred.get('id'), new Corrieneuch.QueryOptions({}), {groupId: 2});
+
+  t.is(result, null);
+});
+
+
+test('get fields', async (t) => {
+  let User = await defineUser();
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+
+  let resource = new DbResource(User);
+  let result = await resource.get('/users/1', fred.get('id'), new Corrieneuch.QueryOptions({fields: {$self: 'name'}}));
+
+  t.is(result.attributes.id, fred.get('id'));
+  t.is(result.attributes.name, 'Fred Flintstone');
+  t.falsy(result.attributes.email);
+});
+
+
+test('get fields version', async (t) => {
+  let User = await defineUser();
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+
+  let resource = new DbResource(User);
+  let result = await resource.get('/users/1', fred.get('id'), new Corrieneuch.QueryOptions({fields: {$self: 'name'}}));
+
+  t.is(result.meta.version, fred.get('updatedAt').toISOString());
+  t.is(result.attributes.updatedAt, undefined);
+
+  result = await resource.get('/users/1', fred.get('id'), new Corrieneuch.QueryOptions({fields: {$self: 'name,updatedAt'}}));
+  t.deepEqual(result.attributes.updatedAt, fred.get('updatedAt'));
+});
+
+
+test('get include', async (t) => {
+  let User = await defineUser();
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+
+  let Post = await definePost(User);
+  let post = await Post.create({title: 'Hello, world', authorId: fred.get('id')});
+
+  let resource = new DbResource(Post, {
+    author: {
+      relationship: {model: User, as: 'author'},
+      link: '/users/<%=authorId%>'
+    }
+  });
+
+  let result = await resource.get('/users/1', fred.get('id'), new Corrieneuch.QueryOptions({include: 'author'}));
+
+  t.is(result.attributes.id, post.get('id'));
+  t.is(result.attributes.title, 'Hello, world');
+  t.is(result.includes.length, 1);
+  t.is(result.includes[0].links.$self, '/users/' + fred.get('id'));
+  t.is(result.includes[0].attributes.name, 'Fred Flintstone');
+});
+
+
+test('get missing', async (t) => {
+  let User = await defineUser();
+  let resource = new DbResource(User);
+  let result = await resource.get('/users/1', 5, new Corrieneuch.QueryOptions({}));
+
+  t.is(result, null);
+});
+
+
+test('get missing throw', async (t) => {
+  let User = await defineUser();
+  let resource = new DbResource(User, {}, {notFound: 'throw'});
+
+  let err = await t.throws(resource.get('/users/1', 5, new Corrieneuch.QueryOptions({})));
+  t.true(err instanceof Db.NotFoundError);
+  t.is(err.status, 404);
+
+  err = await t.throws(resource.update('/users/1', 5, {attributes: {name: 'Wilma Rubble'}}));
+  t.true(err instanceof Db.NotFoundError);
+
+  err = await t.throws(resource.delete(5));
+  t.true(err instanceof Db.NotFoundError);
+});
+
+
+test('composite key', async (t) => {
+  let Membership = db.define<Sequelize.Instance<any>, any>(tbl('memberships'), {
+    userId: {type: Sequelize.INTEGER, primaryKey: true},
+    groupId: {type: Sequelize.INTEGER, primaryKey: true},
+    role: Sequelize.STRING
+  });
+
+  await Membership.sync();
+  await Membership.bulkCreate([{userId: 1, groupId: 2, role: 'owner'}, {userId: 1, groupId: 3, role: 'member'}]);
+
+  let resource = new DbResource(Membership);
+  let list = await resource.list('/memberships', new Corrieneuch.QueryOptions({sort: 'groupId'}));
+  t.is(list.meta.count, 2);
+  t.is(list.elements[0].links.$self, '/memberships/1,2');
+
+  let result = await resource.get('/memberships', '1,3', new Corrieneuch.QueryOptions({}));
+  t.is(result.attributes.role, 'member');
+
+  await resource.update('/memberships/1,2', {userId: 1, groupId: 2}, {attributes: {role: 'member'}});
+  t.is((await Membership.findOne({where: {userId: 1, groupId: 2}})).get('role'), 'member');
+
+  t.is(await resource.delete([1, 3]), 1);
+  t.is(await Membership.count(), 1);
+});
+
+
+test('get alternate key', async (t) => {
+  let User = await defineUser();
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  let resource = new DbResource(User, {}, {alternateKey: 'email'});
+
+  let result = await resource.get('/users', 'fred@gmail.com', new Corrieneuch.QueryOptions({}));
+  t.is(result.attributes.name, 'Fred Flintstone');
+
+  result = await resource.get('/users', String(fred.get('id')), new Corrieneuch.QueryOptions({}));
+  t.is(result.attributes.name, 'Fred Flintstone');
+});
+
+
+test('get alternate key conflict', async (t) => {
+  let User = await defineUser();
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  await User.create({name: 'Wilma Flintstone', email: String(fred.get('id'))});
+  let resource = new DbResource(User, {}, {alternateKey: 'email'});
+
+  let result = await resource.get('/users', String(fred.get('id')), new Corrieneuch.QueryOptions({}));
+  t.is(result.attributes.name, 'Fred Flintstone');
+
+  result = await resource.get('/users', 'fred@gmail.com', new Corrieneuch.QueryOptions({}));
+  t.is(result.links.$self, `/users/${fred.get('id')}`);
+});
+
+
+test('get cache', async (t) => {
+  let User = await defineUser();
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  let resource = new DbResource(User, {}, {cache: new Db.LruCache()});
+  let options = new Corrieneuch.QueryOptions({});
+
+  await resource.get('/users/1', fred.get('id'), options);
+  await User.update(<any>{name: 'Fred Rubble'}, {where: {id: fred.get('id')}});
+  let cached = await resource.get('/users/1', fred.get('id'), options);
+  t.is(cached.attributes.name, 'Fred Flintstone');
+  t.deepEqual(resource.getCacheStats(), {hits: 1, misses: 1});
+
+  await resource.update('/users/1', fred.get('id'), {attributes: {name: 'Barney Rubble'}});
+  let updated = await resource.get('/users/1', fred.get('id'), options);
+  t.is(updated.attributes.name, 'Barney Rubble');
+  t.deepEqual(resource.getCacheStats(), {hits: 1, misses: 2});
+});
+
+
+test('list cache', async (t) => {
+  let User = await defineUser();
+  await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  let resource = new DbResource(User, {}, {cache: new Db.LruCache()});
+  let options = new Corrieneuch.QueryOptions({});
+
+  t.is((await resource.list('/users', options)).elements.length, 1);
+  await resource.create('/users', {attributes: {name: 'Wilma Flintstone', email: 'wilma@gmail.com'}});
+  t.is((await resource.list('/users', options)).elements.length, 2);
+  t.is((await resource.list('/users', options)).elements.length, 2);
+  t.deepEqual(resource.getCacheStats(), {hits: 1, misses: 2});
+});
+
+
+test('list cache hooks', async (t) => {
+  let User = await defineUser();
+
+  await User.bulkCreate([
+    {name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1},
+    {name: 'Barney Rubble', email: 'barney@gmail.com', groupId: 2}
+  ]);
+
+  let resource = new DbResource(User, {}, {cache: new Db.LruCache()});
+  let options = new Corrieneuch.QueryOptions({});
+
+  resource.addHook('beforeList', ({query, context}) => {
+    query.where = {groupId: context.groupId};
+  });
+
+  let result = await resource.withContext({groupId: 1}).list('/users', options);
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['Fred Flintstone']);
+
+  result = await resource.withContext({groupId: 2}).list('/users', options);
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['Barney Rubble']);
+  t.deepEqual(resource.getCacheStats(), {hits: 0, misses: 0});
+});
+
+
+test('lru cache', async (t) => {
+  let cache = new Db.LruCache(2);
+  cache.set('a', 1);
+  cache.set('b', 2);
+  cache.get('a');
+  cache.set('c', 3);
+
+  t.is(cache.size, 2);
+  t.is(cache.get('a'), 1);
+  t.is(cache.get('b'), undefined);
+
+  cache.invalidate('a');
+  t.is(cache.get('a'), undefined);
+  t.is(cache.get('c'), 3);
+});
+
+
+test('create', async (t) => {
+  let User = await defineUser();
+  let resource = new DbResource(User);
+
+  let result = await resource.create('/users/1', {attributes: {
+    name: 'Fred Flintstone',
+    email: 'fred@gmail.com'
+  }});
+
+  let users = await User.findAll();
+  t.is(users.length, 1);
+  t.is(users[0].get('name'), 'Fred Flintstone');
+});
+
+
+test('create constraint pass', async (t) => {
+  let User = await defineUser();
+  let resource = new DbResource(User);
+
+  let result = await resource.create('/users/1', {attributes: {
+    name: 'Fred Flintstone',
+    email: 'fred@gmail.com',
+    groupId: 2
+  }}, {groupId: 2});
+
+  let users = await User.findAll();
+  t.is(users.length, 1);
+  t.is(users[0].get('name'), 'Fred Flintstone');
+  t.is(users[0].get('groupId'), 2);
+});
+
+
+test('create constraint fail', async (t) => {
+  let User = await defineUser();
+  let resource = new DbResource(User);
+
+  await t.throws(resource.create('/users/1', {attributes: {
+    name: 'Fred Flintstone',
+    email: 'fred@gmail.com',
+    groupId: 1
+  }}, {groupId: 2}));
+});
+
+
+test('create constraint fail error', async (t) => {
+  let User = await defineUser();
+  let resource = new DbResource(User);
+
+  let err = await t.throws(resource.create('/users/1', {attributes: {
+    name: 'Fred Flintstone',
+    email: 'fred@gmail.com',
+    groupId: 1
+  }}, {groupId: 2}));
+
+  t.true(err instanceof Db.ConstraintViolationError);
+  t.is(err.status, 403);
+  t.is(err.toJSON().error, 'ConstraintViolationError');
+});
+
+
+test('create validation', async (t) => {
+  let User = await db.define<Sequelize.Instance<User>, User>(tbl('users'), {
+    name: Sequelize.STRING,
+    email: {type: Sequelize.STRING, validate: {isEmail: true}}
+  });
+
+  await User.sync();
+  let resource = new DbResource(User);
+
+  let err = await t.throws(resource.create('/users', {attributes: {
+    name: 'Fred Flintstone',
+    email: 'not an email'
+  }}));
+
+  t.true(err instanceof Db.ValidationError);
+  t.is(err.status, 422);
+  t.is(err.attributes.email.length, 1);
+});
+
+
+test('create conflict', async (t) => {
+  let User = await db.define<Sequelize.Instance<User>, User>(tbl('users'), {
+    name: Sequelize.STRING,
+    email: {type: Sequelize.STRING, unique: true}
+  });
+
+  await User.sync();
+  await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  let resource = new DbResource(User);
+
+  let err = await t.throws(resource.create('/users', {attributes: {
+    name: 'Fred Flintstone',
+    email: 'fred@gmail.com'
+  }}));
+
+  t.true(err instanceof Db.ConflictError);
+  t.is(err.status, 409);
+  t.deepEqual(err.fields, ['email']);
+});
+
+
+test('create read-only', async (t) => {
+  let User = await defineUser();
+  let resource = new DbResource(User, {}, {readOnly: ['id', 'groupId'], unwritable: 'reject'});
+
+  let err = await t.throws(resource.create('/users', {attributes: {
+    name: 'Fred Flintstone',
+    email: 'fred@gmail.com',
+    groupId: 1
+  }}));
+
+  t.true(err instanceof Db.ValidationError);
+  t.deepEqual(Object.keys(err.attributes), ['groupId']);
+  t.is((await User.findAll()).length, 0);
+});
+
+
+test('create strip unwritable', async (t) => {
+  let User = await defineUser();
+  let resource = new DbResource(User, {}, {creatable: ['name', 'email'], unwritable: 'strip'});
+
+  await resource.create('/users', {attributes: {
+    name: 'Fred Flintstone',
+    email: 'fred@gmail.com',
+    groupId: 1,
+    isAdmin: true
+  }});
+
+  let users = await User.findAll();
+  t.is(users.length, 1);
+  t.is(users[0].get('name'), 'Fred Flintstone');
+  t.is(users[0].get('groupId'), null);
+});
+
+
+test('create relationships', async (t) => {
+  let User = await defineUser();
+  let Post = await definePost(User);
+  let Tag = await defineTag(Post);
+
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  let tags = await Tag.bulkCreate([{name: 'news'}, {name: 'rocks'}], {returning: true});
+
+  let resource = new DbResource(Post, {
+    author: {relationship: {model: User, as: 'author'}, link: '/users/<%=authorId%>'},
+    tags: {relationship: {model: Tag, as: 'tags'}, link: '/tags'}
+  });
+
+  let result = await resource.create('/posts', {
+    attributes: {title: 'Hello'},
+    relationships: {author: fred.get('id'), tags: tags.map((tag) => ({id: tag.get('id')}))}
+  });
+
+  t.is(result.attributes.authorId, fred.get('id'));
+
+  let post = await Post.findById(result.attributes.id);
+  t.is((await (<any>post).getTags()).length, 2);
+
+  let err = await t.throws(resource.create('/posts', {attributes: {title: 'Hello'}, relationships: {editor: 1}}));
+  t.true(err instanceof Db.ValidationError);
+  t.deepEqual(err.attributes, {editor: ['is not a known relationship']});
+});
+
+
+test('update relationships', async (t) => {
+  let User = await defineUser();
+  let Post = await definePost(User);
+  let Tag = await defineTag(Post);
+
+  let tags = await Tag.bulkCreate([{name: 'news'}, {name: 'rocks'}], {returning: true});
+  let post = await Post.create({title: 'Hello', authorId: null});
+  await (<any>post).setTags([tags[0].get('id')]);
+
+  let resource = new DbResource(Post, {
+    tags: {relationship: {model: Tag, as: 'tags'}, link: '/tags'}
+  });
+
+  await resource.update('/posts/1', post.get('id'), {attributes: {}, relationships: {tags: [tags[1].get('id')]}});
+  t.deepEqual((await (<any>post).getTags()).map((tag) => tag.get('name')), ['rocks']);
+
+  t.true(await resource.addRelated(post.get('id'), 'tags', [tags[0].get('id')]));
+  t.is((await (<any>post).getTags()).length, 2);
+
+  t.true(await resource.removeRelated(post.get('id'), 'tags', [tags[1].get('id')]));
+  t.deepEqual((await (<any>post).getTags()).map((tag) => tag.get('name')), ['news']);
+
+  t.false(await resource.addRelated(post.get('id'), 'tags', [tags[1].get('id')], {title: 'Goodbye'}));
+  t.is((await (<any>post).getTags()).length, 1);
+});
+
+
+async function defineAccount() {
+  let Account = await db.define<Sequelize.Instance<any>, any>(tbl('accounts'), {
+    name: Sequelize.STRING,
+    emailAddress: Sequelize.STRING,
+    passwordHash: Sequelize.STRING
+  });
+
+  await Account.sync();
+  return Account;
+}
+
+
+const accountConfig: Db.DbResourceCollectionOptions = {
+  rename: {emailAddress: 'email'},
+  hidden: ['passwordHash'],
+  computed: {hasPassword: {attributes: ['passwordHash'], get: (row) => !!row.passwordHash}}
+};
+
+
+test('list attribute mapping', async (t) => {
+  let Account = await defineAccount();
+
+  await Account.bulkCreate([
+    {name: 'Fred Flintstone', emailAddress: 'fred@gmail.com', passwordHash: 'abc'},
+    {name: 'Wilma Flintstone', emailAddress: 'wilma@gmail.com'}
+  ]);
+
+  let resource = new DbResource(Account, {}, accountConfig);
+  let result = await resource.list('/accounts', new Corrieneuch.QueryOptions({sort: '-email'}));
+
+  t.is(result.elements[0].attributes.email, 'wilma@gmail.com');
+  t.is(result.elements[0].attributes.hasPassword, false);
+  t.is(result.elements[1].attributes.hasPassword, true);
+  t.false('emailAddress' in result.elements[0].attributes);
+  t.false('passwordHash' in result.elements[0].attributes);
+
+  result = await resource.list('/accounts', new Corrieneuch.QueryOptions({filter: {email: 'fred@gmail.com'}, fields: {$self: 'email'}}));
+  t.is(result.elements.length, 1);
+  t.is(result.elements[0].attributes.email, 'fred@gmail.com');
+  t.falsy(result.elements[0].attributes.name);
+  t.false('hasPassword' in result.elements[0].attributes);
+
+  let err = await t.throws(resource.list('/accounts', new Corrieneuch.QueryOptions({filter: {passwordHash: 'abc'}})));
+  t.true(err instanceof Db.InvalidQueryError);
+});
+
+
+test('list computed fields', async (t) => {
+  let Account = await defineAccount();
+  await Account.create({name: 'Fred Flintstone', emailAddress: 'fred@gmail.com', passwordHash: 'abc'});
+
+  let resource = new DbResource(Account, {}, {
+    ...accountConfig,
+    computed: {...accountConfig.computed, domain: {attributes: ['emailAddress'], get: (row) => row.emailAddress.split('@')[1]}}
+  });
+
+  let result = await resource.list('/accounts', new Corrieneuch.QueryOptions({}));
+  t.is(result.elements[0].attributes.domain, 'gmail.com');
+
+  result = await resource.list('/accounts', new Corrieneuch.QueryOptions({fields: {$self: 'email'}}));
+  t.is(result.elements[0].attributes.email, 'fred@gmail.com');
+  t.false('domain' in result.elements[0].attributes);
+
+  result = await resource.list('/accounts', new Corrieneuch.QueryOptions({fields: {$self: 'domain'}}));
+  t.is(result.elements[0].attributes.domain, 'gmail.com');
+  t.false('hasPassword' in result.elements[0].attributes);
+});
+
+
+test('create attribute mapping', async (t) => {
+  let Account = await defineAccount();
+  let resource = new DbResource(Account, {}, {...accountConfig, unwritable: 'reject'});
+
+  let result = await resource.create('/accounts', {attributes: {name: 'Fred Flintstone', email: 'fred@gmail.com'}});
+  t.is(result.attributes.email, 'fred@gmail.com');
+
+  let fred = await Account.findById(result.attributes.id);
+  t.is(fred.get('emailAddress'), 'fred@gmail.com');
+
+  result = await resource.update('/accounts/1', fred.get('id'), {attributes: {email: 'freddy@gmail.com'}});
+  t.is(result.attributes.email, 'freddy@gmail.com');
+
+  let err = await t.throws(resource.create('/accounts', {attributes: {passwordHash: 'abc', hasPassword: true}}));
+  t.true(err instanceof Db.ValidationError);
+  t.deepEqual(err.attributes, {passwordHash: ['is not a known attribute'], hasPassword: ['is read-only']});
+});
+
+
+test('policy', async (t) => {
+  let Group = await defineGroup();
+  let User = await defineUser(Group);
+
+  let [flintstones, rubbles] = await Group.bulkCreate([{name: 'Flintstones'}, {name: 'Rubbles'}], {returning: true});
+
+  await User.bulkCreate([
+    {name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: flintstones.get('id')},
+    {name: 'Barney Rubble', email: 'barney@gmail.com', groupId: rubbles.get('id')}
+  ]);
+
+  const policy: Db.AccessPolicy = {
+    filter: ({groupId}) => ({groupId}),
+    validate: ({groupId}, action, attributes) => attributes.groupId === undefined || attributes.groupId === groupId,
+    fields: ({admin}) => admin ? null : ['id', 'name', 'groupId']
+  };
+
+  let resource = new DbResource(User, {}, {policy}).withContext({groupId: flintstones.get('id')});
+  let result = await resource.list('/users', new Corrieneuch.QueryOptions({}));
+
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['Fred Flintstone']);
+  t.false('email' in result.elements[0].attributes);
+
+  let barney = await User.findOne({where: {name: 'Barney Rubble'}});
+  t.is(await resource.get('/users/1', barney.get('id'), new Corrieneuch.QueryOptions({})), null);
+  t.is(await resource.update('/users/1', barney.get('id'), {attributes: {name: 'Barney'}}), null);
+  t.is(await resource.delete(barney.get('id')), 0);
+
+  let err = await t.throws(resource.create('/users', {attributes: {name: 'Betty Rubble', groupId: rubbles.get('id')}}));
+  t.true(err instanceof Db.ConstraintViolationError);
+
+  let admin = await resource.withContext({groupId: flintstones.get('id'), admin: true}).list('/users', new Corrieneuch.QueryOptions({}));
+  t.is(admin.elements[0].attributes.email, 'fred@gmail.com');
+});
+
+
+test('policy fields query', async (t) => {
+  let User = await defineUser();
+
+  await User.bulkCreate([
+    {name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1},
+    {name: 'Barney Rubble', email: 'barney@gmail.com', groupId: 2}
+  ]);
+
+  const policy: Db.AccessPolicy = {
+    fields: ({admin}) => admin ? null : ['id', 'name']
+  };
+
+  let resource = new DbResource(User, {}, {policy, search: ['email']});
+  let options = [
+    {filter: {email: 'fred@gmail.com'}},
+    {sort: 'email'},
+    {q: 'fred'}
+  ];
+
+  for (let query of options) {
+    let err = await t.throws(resource.list('/users', new Corrieneuch.QueryOptions(query)));
+    t.true(err instanceof Db.InvalidQueryError);
+  }
+
+  let err = await t.throws(resource.aggregate('/users/stats', new Corrieneuch.QueryOptions({}), {groupBy: ['groupId'], aggregates: {users: {fn: 'count'}}}));
+  t.true(err instanceof Db.InvalidQueryError);
+
+  let admin = await resource.withContext({admin: true}).list('/users', new Corrieneuch.QueryOptions({filter: {email: 'fred@gmail.com'}}));
+  t.deepEqual(admin.elements.map((x) => x.attributes.name), ['Fred Flintstone']);
+});
+
+
+test('policy include', async (t) => {
+  let Group = await defineGroup();
+  let User = await defineUser(Group);
+  let Post = await definePost(User);
+
+  let [flintstones, rubbles] = await Group.bulkCreate([{name: 'Flintstones'}, {name: 'Rubbles'}], {returning: true});
+  let barney = await User.create({name: 'Barney Rubble', email: 'barney@gmail.com', groupId: rubbles.get('id')});
+  await Post.create({title: 'Yabba', authorId: barney.get('id')});
+
+  let users = new DbResource(User, {}, {policy: {filter: ({groupId}) => ({groupId})}});
+
+  let posts = new DbResource(Post, {
+    author: {relationship: {model: User, as: 'author'}, link: '/users/<%=authorId%>', collection: users}
+  }).withContext({groupId: flintstones.get('id')});
+
+  let result = await posts.list('/posts', new Corrieneuch.QueryOptions({include: 'author'}));
+  t.is(result.elements.length, 1);
+  t.false((result.includes || []).some((x) => x.attributes.name === 'Barney Rubble'));
+});
+
+
+test('createMany', async (t) => {
+  let User = await defineUser();
+  let resource = new DbResource(User);
+
+  let result = await resource.createMany('/users', [
+    {attributes: {name: 'Fred Flintstone', email: 'fred@gmail.com'}},
+    {attributes: {name: 'Wilma Flintstone', email: 'wilma@gmail.com'}}
+  ]);
+
+  t.true(result.committed);
+  t.is(result.items.length, 2);
+  t.is(result.items[1].resource.attributes.name, 'Wilma Flintstone');
+
+  let users = await User.findAll();
+  t.is(users.length, 2);
+});
+
+
+test('createMany atomic', async (t) => {
+  let User = await defineUser();
+  let resource = new DbResource(User);
+
+  let result = await resource.createMany('/users', [
+    {attributes: {name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1}},
+    {attributes: {name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 2}}
+  ], {groupId: 1});
+
+  t.false(result.committed);
+  t.falsy(result.items[0].error);
+  t.truthy(result.items[1].error);
+
+  let users = await User.findAll();
+  t.is(users.length, 0);
+});
+
+
+test('createMany partial', async (t) => {
+  let User = await defineUser();
+  let resource = new DbResource(User);
+
+  let result = await resource.createMany('/users', [
+    {attributes: {name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1}},
+    {attributes: {name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 2}}
+  ], {groupId: 1}, 'partial');
+
+  t.true(result.committed);
+  t.is(result.items[0].resource.attributes.name, 'Fred Flintstone');
+  t.truthy(result.items[1].error);
+
+  let users = await User.findAll();
+  t.is(users.length, 1);
+});
+
+
+test('update', async (t) => {
+  let User = await defineUser();
+  let wilma = await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com'});
+
+  let resource = new DbResource(User);
+
+  let result = await resource.update('/users/1', 1, {attributes: {
+    name: 'Wilma Rubble' // poor Fred
+  }});
+
+  let updated = await User.findById(wilma.get('id'));
+  t.is(updated.get('name'), 'Wilma Rubble');
+  t.is(updated.get('email'), 'wilma@gmail.com');
+});
+
+
+test('update constraint pass', async (t) => {
+  let User = await defineUser();
+  let wilma = await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 1});
+
+  let resource = new DbResource(User);
+
+  let result = await resource.update('/users/1', 1, {attributes: {
+    name: 'Wilma Rubble',
+    groupId: 1
+  }}, {groupId: 1});
+
+  let updated = await User.findById(wilma.get('id'));
+  t.is(updated.get('name'), 'Wilma Rubble');
+  t.is(updated.get('email'), 'wilma@gmail.com');
+});
+
+
+test('update constraint missing', async (t) => {
+  let User = await defineUser();
+  let wilma = await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 1});
+
+  let resource = new DbResource(User);
+
+  let result = await resource.update('/users/1', 1, {attributes: {
+    name: 'Wilma Rubble',
+    groupId: 2
+  }}, {groupId: 2});
+
+  let updated = await User.findById(wilma.get('id'));
+
+  t.is(result, null);
+});
+
+
+test('update constraint violation', async (t) => {
+  let User = await defineUser();
+  let wilma = await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 1});
+
+  let resource = new DbResource(User);
+
+  await t.throws(resource.update('/users/1', 1, {attributes: {
     name: 'Wilma Rubble',
     groupId: 2
   }}, {groupId: 1}));
 
   let updated = await User.findById(wilma.get('id'));
-  t.deepEqual(updated.get(), wilma.get());
+  t.deepEqual(updated.get(), wilma.get());
+});
+
+
+test('update immutable', async (t) => {
+  let User = await defineUser();
+  let wilma = await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 1});
+
+  let resource = new DbResource(User, {}, {immutable: ['groupId'], unwritable: 'reject'});
+
+  let err = await t.throws(resource.update('/users/1', wilma.get('id'), {attributes: {
+    name: 'Wilma Rubble',
+    groupId: 2
+  }}));
+
+  t.true(err instanceof Db.ValidationError);
+
+  let updated = await User.findById(wilma.get('id'));
+  t.is(updated.get('name'), 'Wilma Flintstone');
+});
+
+
+test('update version', async (t) => {
+  let User = await db.define<Sequelize.Instance<User>, User>(tbl('users'), {
+    name: Sequelize.STRING,
+    email: Sequelize.STRING
+  }, {version: true});
+
+  await User.sync();
+  let wilma = await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com'});
+
+  let resource = new DbResource(User);
+  let current = await resource.get('/users/1', wilma.get('id'), new Corrieneuch.QueryOptions({}));
+  t.is(current.meta.version, 0);
+
+  let result = await resource.update('/users/1', wilma.get('id'), {
+    attributes: {name: 'Wilma Rubble'},
+    meta: {version: current.meta.version}
+  });
+
+  t.is(result.attributes.name, 'Wilma Rubble');
+  t.is(result.meta.version, 1);
+
+  let err = await t.throws(resource.update('/users/1', wilma.get('id'), {
+    attributes: {name: 'Wilma Slaghoople'},
+    meta: {version: current.meta.version}
+  }));
+
+  t.true(err instanceof Db.PreconditionFailedError);
+  t.is(err.status, 412);
+
+  let updated = await User.findById(wilma.get('id'));
+  t.is(updated.get('name'), 'Wilma Rubble');
+});
+
+
+test('update version updatedAt', async (t) => {
+  let User = await defineUser();
+  let wilma = await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com'});
+
+  let resource = new DbResource(User);
+  let current = await resource.get('/users/1', wilma.get('id'), new Corrieneuch.QueryOptions({fields: {$self: 'name'}}));
+  t.is(current.meta.version, wilma.get('updatedAt').toISOString());
+
+  await t.throws(resource.update('/users/1', wilma.get('id'), {
+    attributes: {name: 'Wilma Rubble'},
+    meta: {version: new Date(0).toISOString()}
+  }));
+
+  let result = await resource.update('/users/1', wilma.get('id'), {
+    attributes: {name: 'Wilma Rubble'},
+    meta: {version: current.meta.version}
+  });
+
+  t.is(result.attributes.name, 'Wilma Rubble');
 });
 
 
@@ -432,6 +1792,116 @@ test('update missing', async (t) => {
 });
 
 
+test('replace', async (t) => {
+  let User = await defineUser();
+  let wilma = await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 1});
+
+  let resource = new DbResource(User);
+  let result = await resource.replace('/users/1', wilma.get('id'), {attributes: {name: 'Wilma Rubble'}});
+  t.is(result.attributes.name, 'Wilma Rubble');
+
+  let replaced = await User.findById(wilma.get('id'));
+  t.is(replaced.get('name'), 'Wilma Rubble');
+  t.is(replaced.get('email'), null);
+  t.is(replaced.get('groupId'), null);
+});
+
+
+test('upsert', async (t) => {
+  let User = await db.define<Sequelize.Instance<User>, User>(tbl('users'), {
+    name: Sequelize.STRING,
+    email: {type: Sequelize.STRING, unique: true},
+    groupId: Sequelize.INTEGER
+  });
+
+  await User.sync();
+  let resource = new DbResource(User, {}, {naturalKey: ['email']});
+
+  let result = await resource.upsert('/users', 'fred@gmail.com', {attributes: {name: 'Fred Flintstone'}});
+  t.true(result.created);
+  t.is(result.resource.attributes.email, 'fred@gmail.com');
+
+  result = await resource.upsert('/users', {email: 'fred@gmail.com'}, {attributes: {name: 'Fred Rubble'}});
+  t.false(result.created);
+  t.is(result.resource.attributes.name, 'Fred Rubble');
+
+  t.is(await User.count(), 1);
+  let err = await t.throws(resource.upsert('/users', 'fred@gmail.com', {attributes: {groupId: 2}}, {groupId: 2}));
+  t.true(err instanceof Db.ConflictError);
+
+  err = await t.throws(new DbResource(User).upsert('/users', 'fred@gmail.com', {attributes: {}}));
+  t.true(err instanceof Db.DbResourceError);
+});
+
+
+test('updateMany ids', async (t) => {
+  let User = await defineUser();
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  let wilma = await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com'});
+  let barney = await User.create({name: 'Barney Rubble', email: 'barney@gmail.com'});
+
+  let resource = new DbResource(User);
+  let result = await resource.updateMany('/users', [fred.get('id'), wilma.get('id')], {attributes: {groupId: 3}});
+
+  t.true(result.committed);
+  t.is(result.items.length, 2);
+  t.is(result.items[0].resource.attributes.groupId, 3);
+
+  let users = await User.findAll({where: {groupId: 3}});
+  t.is(users.length, 2);
+});
+
+
+test('updateMany filter', async (t) => {
+  let User = await defineUser();
+  await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com'});
+  await User.create({name: 'Barney Rubble', email: 'barney@gmail.com'});
+
+  let resource = new DbResource(User);
+  let result = await resource.updateMany('/users', {name: {$like: '%flintstone'}}, {attributes: {name: 'Flintstone'}});
+
+  t.true(result.committed);
+  t.is(result.items.length, 2);
+  t.is(result.items[0].resource.attributes.name, 'Flintstone');
+
+  let users = await User.findAll({where: {name: 'Flintstone'}});
+  t.is(users.length, 2);
+});
+
+
+test('updateMany filter version', async (t) => {
+  let User = await db.define<Sequelize.Instance<User>, User>(tbl('users'), {
+    name: Sequelize.STRING,
+    email: Sequelize.STRING
+  }, {version: true});
+
+  await User.sync();
+  await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com'});
+
+  let resource = new DbResource(User);
+  let result = await resource.updateMany('/users', {name: {$like: '%flintstone'}}, {attributes: {name: 'Flintstone'}});
+
+  t.true(result.committed);
+  t.deepEqual(result.items.map((x) => x.resource.meta.version), [1, 1]);
+
+  let users = await User.findAll({where: {name: 'Flintstone'}});
+  t.deepEqual(users.map((x) => x.get('version')), [1, 1]);
+});
+
+
+test('updateMany filter error', async (t) => {
+  let User = await defineUser();
+  await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+
+  let resource = new DbResource(User, {}, {unwritable: 'reject'});
+  let result = await resource.updateMany('/users', {name: {$like: '%flintstone'}}, {attributes: {password: 'secret'}});
+
+  t.false(result.committed);
+  t.true(result.items[0].error instanceof Db.ValidationError);
+});
+
 
 test('delete', async (t) => {
   let User = await defineUser();
@@ -467,3 +1937,380 @@ test('delete constraint missing', async (t) => {
   let user = await User.findById(wilma.get('id'));
   t.not(user, null);
 });
+
+
+test('deleteMany ids', async (t) => {
+  let User = await defineUser();
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1});
+  let wilma = await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 2});
+
+  let resource = new DbResource(User);
+  let result = await resource.deleteMany([fred.get('id'), wilma.get('id')], {groupId: 1});
+
+  t.true(result.committed);
+  t.is(result.items[0].count, 1);
+  t.is(result.items[1].count, 0);
+
+  let users = await User.findAll();
+  t.is(users.length, 1);
+});
+
+
+test('deleteMany filter', async (t) => {
+  let User = await defineUser();
+  await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1});
+  await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 1});
+  await User.create({name: 'Barney Rubble', email: 'barney@gmail.com', groupId: 2});
+
+  let resource = new DbResource(User);
+  let result = await resource.deleteMany({groupId: 1});
+
+  t.true(result.committed);
+  t.is(result.items[0].count, 2);
+
+  let users = await User.findAll();
+  t.is(users.length, 1);
+});
+
+
+test('deleteMany filter relationship partial', async (t) => {
+  let Group = await defineGroup();
+  let User = await defineUser(Group);
+  let group = await Group.create({name: 'group 1'});
+  await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: group.get('id')});
+  await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: group.get('id')});
+  await User.create({name: 'Barney Rubble', email: 'barney@gmail.com'});
+
+  let resource = new DbResource(User, {
+    group: {
+      relationship: {model: Group, as: 'group'},
+      link: '/groups/<%=groupId%>'
+    }
+  });
+
+  let result = await resource.deleteMany({'group.name': 'group 1'}, null, 'partial');
+
+  t.true(result.committed);
+  t.deepEqual(result.items.map((item) => item.count), [1, 1]);
+  t.is(await User.count(), 1);
+});
+
+
+test('transaction', async (t) => {
+  let User = await defineUser();
+  let Post = await definePost(User);
+
+  let users = new DbResource(User);
+  let posts = new DbResource(Post);
+
+  let result = await Db.transaction(db, async (bind) => {
+    let fred = await bind(users).create('/users', {attributes: {name: 'Fred Flintstone', email: 'fred@gmail.com'}});
+    return await bind(posts).create('/posts', {attributes: {title: 'Hello, world', authorId: fred.attributes.id}});
+  });
+
+  t.is(result.attributes.title, 'Hello, world');
+  t.is((await User.findAll()).length, 1);
+  t.is((await Post.findAll()).length, 1);
+});
+
+
+test('transaction rollback', async (t) => {
+  let User = await defineUser();
+  let users = new DbResource(User);
+
+  await t.throws(Db.transaction(db, async (bind, transaction) => {
+    let fred = await users.create('/users', {attributes: {name: 'Fred Flintstone', email: 'fred@gmail.com'}}, null, transaction);
+    await bind(users).update('/users/1', fred.attributes.id, {attributes: {name: 'Fred Rubble'}});
+    throw new Error('oops');
+  }));
+
+  t.is((await User.findAll()).length, 0);
+});
+
+
+test('hooks', async (t) => {
+  let User = await defineUser();
+  let contexts = [];
+
+  let resource = new DbResource(User, {}, {
+    hooks: {
+      beforeCreate: ({attributes}) => {
+        attributes.email = attributes.email.toLowerCase();
+      },
+      afterGet: ({resource, context}) => {
+        contexts.push(context);
+        resource.attributes.greeting = 'Hello, ' + resource.attributes.name;
+      }
+    }
+  });
+
+  resource.addHook('beforeList', ({query}) => {
+    query.where = {name: 'Fred Flintstone'};
+  });
+
+  let fred = await resource.create('/users', {attributes: {name: 'Fred Flintstone', email: 'FRED@gmail.com'}});
+  await resource.create('/users', {attributes: {name: 'Wilma Flintstone', email: 'wilma@gmail.com'}});
+  t.is(fred.attributes.email, 'fred@gmail.com');
+
+  let list = await resource.list('/users', new Corrieneuch.QueryOptions({}));
+  t.is(list.elements.length, 1);
+
+  let result = await resource.withContext({user: 'barney'}).get('/users/1', fred.attributes.id, new Corrieneuch.QueryOptions({}));
+  t.is(result.attributes.greeting, 'Hello, Fred Flintstone');
+  t.deepEqual(contexts, [{user: 'barney'}]);
+});
+
+
+test('hooks clone', async (t) => {
+  let User = await defineUser();
+  let resource = new DbResource(User);
+  let bound = resource.withContext({user: 'barney'});
+
+  bound.addHook('beforeCreate', ({attributes}) => {
+    attributes.name = attributes.name.toUpperCase();
+  });
+
+  let fred = await resource.create('/users', {attributes: {name: 'Fred Flintstone', email: 'fred@gmail.com'}});
+  t.is(fred.attributes.name, 'Fred Flintstone');
+
+  let wilma = await bound.create('/users', {attributes: {name: 'Wilma Flintstone', email: 'wilma@gmail.com'}});
+  t.is(wilma.attributes.name, 'WILMA FLINTSTONE');
+});
+
+
+test('hooks abort', async (t) => {
+  let User = await defineUser();
+  let wilma = await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com'});
+
+  let resource = new DbResource(User, {}, {
+    hooks: {
+      beforeDelete: () => { throw new Error('not allowed'); }
+    }
+  });
+
+  await t.throws(resource.delete(wilma.get('id')));
+  t.not(await User.findById(wilma.get('id')), null);
+});
+
+
+test('delete version', async (t) => {
+  let User = await db.define<Sequelize.Instance<User>, User>(tbl('users'), {
+    name: Sequelize.STRING,
+    email: Sequelize.STRING
+  }, {version: true});
+
+  await User.sync();
+  let wilma = await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com'});
+  let resource = new DbResource(User);
+
+  let err = await t.throws(resource.delete(wilma.get('id'), null, null, 5));
+  t.true(err instanceof Db.PreconditionFailedError);
+
+  t.is(await resource.delete(wilma.get('id'), null, null, 0), 1);
+  t.is(await User.findById(wilma.get('id')), null);
+});
+
+
+async function defineParanoidUser() {
+  let User = await db.define<Sequelize.Instance<User>, User>(tbl('users'), {
+    name: Sequelize.STRING,
+    email: Sequelize.STRING,
+    groupId: Sequelize.INTEGER
+  }, {paranoid: true});
+
+  await User.sync();
+  return User;
+}
+
+
+test('list deleted', async (t) => {
+  let User = await defineParanoidUser();
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  await User.create({name: 'Wilma Flintstone', email: 'wilma@gmail.com'});
+
+  let resource = new DbResource(User);
+  t.is(await resource.delete(fred.get('id')), 1);
+
+  let result = await resource.list('/users', new Corrieneuch.QueryOptions({}));
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['Wilma Flintstone']);
+
+  result = await resource.withDeleted().list('/users', new Corrieneuch.QueryOptions({sort: 'name'}));
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['Fred Flintstone', 'Wilma Flintstone']);
+
+  result = await resource.withDeleted('only').list('/users', new Corrieneuch.QueryOptions({}));
+  t.deepEqual(result.elements.map((x) => x.attributes.name), ['Fred Flintstone']);
+
+  t.is(await resource.get('/users/1', fred.get('id'), new Corrieneuch.QueryOptions({})), null);
+  let got = await resource.withDeleted().get('/users/1', fred.get('id'), new Corrieneuch.QueryOptions({}));
+  t.is(got.attributes.name, 'Fred Flintstone');
+});
+
+
+test('restore', async (t) => {
+  let User = await defineParanoidUser();
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1});
+
+  let resource = new DbResource(User);
+  await resource.delete(fred.get('id'));
+
+  t.is(await resource.restore(fred.get('id'), {groupId: 2}), 0);
+  t.is(await User.findById(fred.get('id')), null);
+
+  t.is(await resource.restore(fred.get('id'), {groupId: 1}), 1);
+  t.truthy(await User.findById(fred.get('id')));
+  t.is(await resource.restore(fred.get('id')), 0);
+});
+
+
+test('restore not paranoid', async (t) => {
+  let User = await defineUser();
+  let resource = new DbResource(User);
+
+  let err = await t.throws(resource.restore(1));
+  t.true(err instanceof Db.DbResourceError);
+});
+
+
+test('purge', async (t) => {
+  let User = await defineParanoidUser();
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1});
+
+  let resource = new DbResource(User);
+  t.is(await resource.purge(fred.get('id'), {groupId: 2}), 0);
+  t.is(await resource.purge(fred.get('id'), {groupId: 1}), 1);
+  t.is(await User.findById(fred.get('id'), {paranoid: false}), null);
+});
+
+
+test('audit', async (t) => {
+  let User = await defineUser();
+  let Audit = Db.defineAuditModel(db, tbl('audit'));
+  await Audit.sync();
+
+  let resource = new DbResource(User, {}, {audit: {model: Audit, actor: ({user}) => user}}).withContext({user: 'fred'});
+  let created = await resource.create('/users', {attributes: {name: 'Fred Flintstone', email: 'fred@gmail.com'}});
+  let id = created.attributes.id;
+
+  await resource.update('/users/' + id, id, {attributes: {name: 'Fred Rubble'}});
+  await resource.delete(id);
+
+  let history = await resource.history(id);
+  t.deepEqual(history.map((entry) => entry.operation), ['create', 'update', 'delete']);
+  t.true(history.every((entry) => entry.actor === 'fred' && entry.entityId === String(id)));
+  t.deepEqual(history[1].changes.name, {before: 'Fred Flintstone', after: 'Fred Rubble'});
+  t.is(history[2].changes.email.after, null);
+});
+
+
+test('audit policy', async (t) => {
+  let User = await defineUser();
+  let Audit = Db.defineAuditModel(db, tbl('audit'));
+  await Audit.sync();
+
+  const policy: Db.AccessPolicy = {
+    filter: ({groupId}) => ({groupId}),
+    fields: () => ['id', 'name', 'groupId']
+  };
+
+  let resource = new DbResource(User, {}, {audit: {model: Audit}, policy});
+  let fred = await resource.withContext({groupId: 1}).create('/users', {attributes: {name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1}});
+  let id = fred.attributes.id;
+
+  let history = await resource.withContext({groupId: 1}).history(id);
+  t.deepEqual(history.map((entry) => entry.operation), ['create']);
+  t.deepEqual(history[0].changes.name, {before: null, after: 'Fred Flintstone'});
+  t.false('email' in history[0].changes);
+
+  t.is(await resource.withContext({groupId: 2}).history(id), null);
+});
+
+
+test('audit not audited', async (t) => {
+  let User = await defineUser();
+  let err = await t.throws(new DbResource(User).history(1));
+  t.true(err instanceof Db.DbResourceError);
+});
+
+
+test('audit restore purge', async (t) => {
+  let User = await defineParanoidUser();
+  let Audit = Db.defineAuditModel(db, tbl('audit'));
+  await Audit.sync();
+
+  let fred = await User.create({name: 'Fred Flintstone', email: 'fred@gmail.com'});
+  let id = fred.get('id');
+  let resource = new DbResource(User, {}, {audit: {model: Audit}});
+
+  await resource.delete(id);
+  await resource.restore(id);
+  await resource.purge(id);
+
+  let history = await resource.history(id);
+  t.deepEqual(history.map((entry) => entry.operation), ['delete', 'restore', 'purge']);
+  t.is(history[1].changes.deletedAt.after, null);
+  t.truthy(history[1].changes.deletedAt.before);
+  t.deepEqual(history[2].changes.name, {before: 'Fred Flintstone', after: null});
+});
+
+
+test('audit bulk upsert', async (t) => {
+  let User = await db.define<Sequelize.Instance<User>, User>(tbl('users'), {
+    name: Sequelize.STRING,
+    email: {type: Sequelize.STRING, unique: true},
+    groupId: Sequelize.INTEGER
+  });
+
+  await User.sync();
+  let Audit = Db.defineAuditModel(db, tbl('audit'));
+  await Audit.sync();
+
+  let [fred, wilma] = await User.bulkCreate([
+    {name: 'Fred Flintstone', email: 'fred@gmail.com', groupId: 1},
+    {name: 'Wilma Flintstone', email: 'wilma@gmail.com', groupId: 1}
+  ], {returning: true});
+
+  let resource = new DbResource(User, {}, {naturalKey: ['email'], audit: {model: Audit}});
+
+  await resource.updateMany('/users', {name: {$like: '%flintstone'}}, {attributes: {groupId: 2}});
+  await resource.replace('/users', fred.get('id'), {attributes: {name: 'Fred Flintstone', email: 'fred@gmail.com'}});
+  await resource.deleteMany({groupId: 2});
+
+  let history = await resource.history(fred.get('id'));
+  t.deepEqual(history.map((entry) => entry.operation), ['update', 'replace']);
+  t.deepEqual(history[0].changes.groupId, {before: 1, after: 2});
+  t.deepEqual(history[1].changes.groupId, {before: 2, after: null});
+
+  history = await resource.history(wilma.get('id'));
+  t.deepEqual(history.map((entry) => entry.operation), ['update', 'delete']);
+
+  let created = await resource.upsert('/users', 'barney@gmail.com', {attributes: {name: 'Barney Rubble'}});
+  await resource.upsert('/users', 'barney@gmail.com', {attributes: {name: 'Barney'}});
+
+  history = await resource.history(created.resource.attributes.id);
+  t.deepEqual(history.map((entry) => entry.operation), ['create', 'update']);
+  t.deepEqual(history[1].changes.name, {before: 'Barney Rubble', after: 'Barney'});
+});
+
+
+test('audit related', async (t) => {
+  let User = await defineUser();
+  let Post = await definePost(User);
+  let Tag = await defineTag(Post);
+  let Audit = Db.defineAuditModel(db, tbl('audit'));
+  await Audit.sync();
+
+  let tags = await Tag.bulkCreate([{name: 'news'}, {name: 'rocks'}], {returning: true});
+  let post = await Post.create({title: 'Hello', authorId: null});
+
+  let resource = new DbResource(Post, {
+    tags: {relationship: {model: Tag, as: 'tags'}, link: '/tags'}
+  }, {audit: {model: Audit}});
+
+  await resource.addRelated(post.get('id'), 'tags', [tags[0].get('id'), tags[1].get('id')]);
+  await resource.removeRelated(post.get('id'), 'tags', [tags[0].get('id')]);
+
+  let history = await resource.history(post.get('id'));
+  t.deepEqual(history.map((entry) => entry.operation), ['addRelated', 'removeRelated']);
+  t.deepEqual(history[0].changes.tags, {before: [], after: [tags[0].get('id'), tags[1].get('id')]});
+  t.deepEqual(history[1].changes.tags, {before: [tags[0].get('id'), tags[1].get('id')], after: [tags[1].get('id')]});
+});